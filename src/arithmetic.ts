@@ -2,15 +2,100 @@
  * Date arithmetic operations
  */
 
-import type { DateInput, Unit } from './types.js';
+import type { DateInput, DurationLike, TimeZoneOptions, Unit } from './types.js';
 import { toDate } from './core.js';
+import { zonedParts, fromZonedParts } from './timezone.js';
 
 /**
- * Add time to a date (returns new Date)
+ * Add calendar units to the wall-clock time in a timezone
  */
-export function add(input: DateInput, amount: number, unit: Unit): Date {
+function addInTimezone(d: Date, amount: number, unit: 'year' | 'month' | 'week' | 'day', timezone: string): Date {
+  const p = zonedParts(d, timezone);
+
+  switch (unit) {
+    case 'year':
+    case 'month': {
+      const totalMonths = p.year * 12 + p.month + (unit === 'year' ? amount * 12 : amount);
+      const year = Math.floor(totalMonths / 12);
+      const month = totalMonths - year * 12;
+      const maxDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      return fromZonedParts({ ...p, year, month, day: Math.min(p.day, maxDay) }, timezone);
+    }
+    case 'week':
+    case 'day': {
+      // Whole days move on the wall clock; a fraction of a day is added as exact time
+      const days = unit === 'week' ? amount * 7 : amount;
+      const whole = Math.trunc(days);
+      const result = fromZonedParts({ ...p, day: p.day + whole }, timezone);
+      return new Date(result.getTime() + (days - whole) * 24 * 60 * 60 * 1000);
+    }
+  }
+}
+
+/**
+ * Add calendar days, keeping the wall-clock time (any fraction of a day is exact time)
+ */
+function addCalendarDays(d: Date, days: number, timezone?: string): Date {
+  if (timezone) {
+    return addInTimezone(d, days, 'day', timezone);
+  }
+  const whole = Math.trunc(days);
+  const result = new Date(d.getFullYear(), d.getMonth(), d.getDate() + whole, d.getHours(), d.getMinutes(), d.getSeconds(), d.getMilliseconds());
+  return new Date(result.getTime() + (days - whole) * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Apply a duration: years and months first (clamping the day), then calendar days, then exact time
+ */
+function addDuration(d: Date, duration: DurationLike, timezone?: string): Date {
+  let result = d;
+
+  const months = (duration.years ?? 0) * 12 + (duration.months ?? 0);
+  if (months) {
+    result = add(result, months, 'month', { timeZone: timezone });
+  }
+
+  const days = (duration.weeks ?? 0) * 7 + (duration.days ?? 0);
+  if (days) {
+    result = addCalendarDays(result, days, timezone);
+  }
+
+  const ms = (duration.hours ?? 0) * 60 * 60 * 1000 +
+    (duration.minutes ?? 0) * 60 * 1000 +
+    (duration.seconds ?? 0) * 1000 +
+    (duration.milliseconds ?? 0);
+
+  return new Date(result.getTime() + ms);
+}
+
+/**
+ * Add time to a date (returns new Date).
+ * Accepts an amount and unit, or a duration whose calendar units are applied on the calendar.
+ * With a timeZone, calendar units follow that zone's wall clock across DST changes.
+ */
+export function add(input: DateInput, amount: number, unit: Unit, options?: TimeZoneOptions): Date;
+export function add(input: DateInput, duration: DurationLike, options?: TimeZoneOptions): Date;
+export function add(
+  input: DateInput,
+  amountOrDuration: number | DurationLike,
+  unitOrOptions?: Unit | TimeZoneOptions,
+  maybeOptions: TimeZoneOptions = {}
+): Date {
   const d = toDate(input);
 
+  if (typeof amountOrDuration === 'object') {
+    const options = (unitOrOptions as TimeZoneOptions | undefined) ?? {};
+    return addDuration(d, amountOrDuration, options.timeZone);
+  }
+
+  const amount = amountOrDuration;
+  const unit = unitOrOptions as Unit;
+  const options = maybeOptions;
+
+  if (options.timeZone && (unit === 'year' || unit === 'month' || unit === 'week' || unit === 'day')) {
+    return addInTimezone(d, amount, unit, options.timeZone);
+  }
+
   switch (unit) {
     case 'year': {
       const targetYear = d.getFullYear() + amount;
@@ -47,23 +132,44 @@ export function add(input: DateInput, amount: number, unit: Unit): Date {
 /**
  * Subtract time from a date (returns new Date)
  */
-export function subtract(input: DateInput, amount: number, unit: Unit): Date {
-  return add(input, -amount, unit);
+export function subtract(input: DateInput, amount: number, unit: Unit, options?: TimeZoneOptions): Date;
+export function subtract(input: DateInput, duration: DurationLike, options?: TimeZoneOptions): Date;
+export function subtract(
+  input: DateInput,
+  amountOrDuration: number | DurationLike,
+  unitOrOptions?: Unit | TimeZoneOptions,
+  maybeOptions?: TimeZoneOptions
+): Date {
+  if (typeof amountOrDuration === 'object') {
+    const dur = amountOrDuration;
+    const negated: DurationLike = {
+      years: -(dur.years ?? 0),
+      months: -(dur.months ?? 0),
+      weeks: -(dur.weeks ?? 0),
+      days: -(dur.days ?? 0),
+      hours: -(dur.hours ?? 0),
+      minutes: -(dur.minutes ?? 0),
+      seconds: -(dur.seconds ?? 0),
+      milliseconds: -(dur.milliseconds ?? 0),
+    };
+    return add(input, negated, unitOrOptions as TimeZoneOptions | undefined);
+  }
+  return add(input, -amountOrDuration, unitOrOptions as Unit, maybeOptions);
 }
 
 // Convenience methods
-export const addYears = (input: DateInput, n: number) => add(input, n, 'year');
-export const addMonths = (input: DateInput, n: number) => add(input, n, 'month');
-export const addWeeks = (input: DateInput, n: number) => add(input, n, 'week');
-export const addDays = (input: DateInput, n: number) => add(input, n, 'day');
-export const addHours = (input: DateInput, n: number) => add(input, n, 'hour');
-export const addMinutes = (input: DateInput, n: number) => add(input, n, 'minute');
-export const addSeconds = (input: DateInput, n: number) => add(input, n, 'second');
-
-export const subYears = (input: DateInput, n: number) => subtract(input, n, 'year');
-export const subMonths = (input: DateInput, n: number) => subtract(input, n, 'month');
-export const subWeeks = (input: DateInput, n: number) => subtract(input, n, 'week');
-export const subDays = (input: DateInput, n: number) => subtract(input, n, 'day');
-export const subHours = (input: DateInput, n: number) => subtract(input, n, 'hour');
-export const subMinutes = (input: DateInput, n: number) => subtract(input, n, 'minute');
-export const subSeconds = (input: DateInput, n: number) => subtract(input, n, 'second');
+export const addYears = (input: DateInput, n: number, options?: TimeZoneOptions) => add(input, n, 'year', options);
+export const addMonths = (input: DateInput, n: number, options?: TimeZoneOptions) => add(input, n, 'month', options);
+export const addWeeks = (input: DateInput, n: number, options?: TimeZoneOptions) => add(input, n, 'week', options);
+export const addDays = (input: DateInput, n: number, options?: TimeZoneOptions) => add(input, n, 'day', options);
+export const addHours = (input: DateInput, n: number, options?: TimeZoneOptions) => add(input, n, 'hour', options);
+export const addMinutes = (input: DateInput, n: number, options?: TimeZoneOptions) => add(input, n, 'minute', options);
+export const addSeconds = (input: DateInput, n: number, options?: TimeZoneOptions) => add(input, n, 'second', options);
+
+export const subYears = (input: DateInput, n: number, options?: TimeZoneOptions) => subtract(input, n, 'year', options);
+export const subMonths = (input: DateInput, n: number, options?: TimeZoneOptions) => subtract(input, n, 'month', options);
+export const subWeeks = (input: DateInput, n: number, options?: TimeZoneOptions) => subtract(input, n, 'week', options);
+export const subDays = (input: DateInput, n: number, options?: TimeZoneOptions) => subtract(input, n, 'day', options);
+export const subHours = (input: DateInput, n: number, options?: TimeZoneOptions) => subtract(input, n, 'hour', options);
+export const subMinutes = (input: DateInput, n: number, options?: TimeZoneOptions) => subtract(input, n, 'minute', options);
+export const subSeconds = (input: DateInput, n: number, options?: TimeZoneOptions) => subtract(input, n, 'second', options);
@@ -2,70 +2,282 @@
  * Business day support
  */
 
-import type { DateInput, BusinessDayOptions } from './types.js';
-import { toDate } from './core.js';
-import { addDays, subDays } from './arithmetic.js';
-import { isSameDay } from './compare.js';
+import type { DateInput, BusinessDayOptions, HolidayCalendar } from './types.js';
+import { calendarDate } from './core.js';
+import { addDays } from './arithmetic.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WEEKEND = [0, 6];
 
 /**
- * Check if a date is a business day
+ * Business-day options pre-indexed for arithmetic: weekend flags by weekday, and holidays
+ * that fall on working weekdays as sorted day numbers, built per year on demand. Copies of the
+ * weekend and holiday lists are kept to notice changes made in place.
  */
-export function isBusinessDay(input: DateInput, options: BusinessDayOptions = {}): boolean {
-  const d = toDate(input);
-  const weekendDays = options.weekendDays ?? [0, 6];
-  const holidays = options.holidays ?? [];
+interface DayIndex {
+  weekendDays: number[];
+  holidays: Array<string | number>;
+  calendar: HolidayCalendar | undefined;
+  weekend: boolean[];
+  perWeek: number;
+  userDays: number[];
+  years: Map<number, number[]>;
+}
 
-  if (weekendDays.includes(d.getDay())) {
-    return false;
+const indexCache = new WeakMap<BusinessDayOptions, DayIndex>();
+const offsetChangeCache = new Map<number, number[]>();
+
+/**
+ * The holiday calendar in options: the options themselves when a HolidayCalendar is passed, or options.calendar
+ */
+function holidayCalendarOf(options: BusinessDayOptions): HolidayCalendar | undefined {
+  return 'isHoliday' in options ? (options as HolidayCalendar) : options.calendar;
+}
+
+/**
+ * Local calendar date as days since 1970-01-01
+ */
+export function dayNumber(d: Date): number {
+  return Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / DAY_MS;
+}
+
+function weekdayOf(day: number): number {
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+function yearOf(day: number): number {
+  return new Date(day * DAY_MS).getUTCFullYear();
+}
+
+/**
+ * Index of the first element >= value in a sorted array
+ */
+function lowerBound(sorted: number[], value: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Holiday list as plain values (timestamps for dates), so edits in place can be detected
+ */
+function holidaySnapshot(holidays: DateInput[] = []): Array<string | number> {
+  return holidays.map(h => (h instanceof Date ? h.getTime() : h));
+}
+
+function sameValues<T>(a: T[], b: T[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/**
+ * Get the index for options, rebuilding it if the weekend, holidays or calendar have changed since
+ */
+function dayIndex(options: BusinessDayOptions): DayIndex {
+  const calendar = holidayCalendarOf(options);
+  const weekendDays = options.weekendDays ?? calendar?.weekendDays ?? DEFAULT_WEEKEND;
+  const holidays = holidaySnapshot(options.holidays);
+  const cached = indexCache.get(options);
+  if (cached && cached.calendar === calendar && sameValues(cached.weekendDays, weekendDays) &&
+    sameValues(cached.holidays, holidays)) {
+    return cached;
   }
 
-  for (const holiday of holidays) {
-    if (isSameDay(d, holiday)) {
-      return false;
+  const weekend = [0, 1, 2, 3, 4, 5, 6].map(day => weekendDays.includes(day));
+  const userDays = (options.holidays ?? [])
+    .map(h => dayNumber(calendarDate(h)))
+    .filter(day => !isNaN(day) && !weekend[weekdayOf(day)])
+    .sort((a, b) => a - b);
+
+  const index: DayIndex = {
+    weekendDays: [...weekendDays],
+    holidays,
+    calendar,
+    weekend,
+    perWeek: weekend.filter(w => !w).length,
+    userDays,
+    years: new Map(),
+  };
+  indexCache.set(options, index);
+  return index;
+}
+
+/**
+ * Holidays on working weekdays in a year, from both the holiday list and the calendar, sorted and unique
+ */
+function holidaysOfYear(index: DayIndex, year: number): number[] {
+  let days = index.years.get(year);
+  if (!days) {
+    const first = Date.UTC(year, 0, 1) / DAY_MS;
+    const next = Date.UTC(year + 1, 0, 1) / DAY_MS;
+    const all = index.userDays.slice(lowerBound(index.userDays, first), lowerBound(index.userDays, next));
+    for (const h of index.calendar?.holidaysInYear(year) ?? []) {
+      const day = dayNumber(h.date);
+      if (!index.weekend[weekdayOf(day)]) all.push(day);
     }
+    days = [...new Set(all)].sort((a, b) => a - b);
+    index.years.set(year, days);
   }
+  return days;
+}
 
-  return true;
+/**
+ * Number of holidays on working weekdays in [from, to], by binary search per year
+ */
+function countHolidays(index: DayIndex, from: number, to: number): number {
+  let count = 0;
+  for (let year = yearOf(from); year <= yearOf(to); year++) {
+    const days = holidaysOfYear(index, year);
+    count += lowerBound(days, to + 1) - lowerBound(days, from);
+  }
+  return count;
+}
+
+/**
+ * Number of working weekdays in [from, to]: whole weeks arithmetically, then the remaining days
+ */
+function countWeekdays(index: DayIndex, from: number, to: number): number {
+  const length = to - from + 1;
+  const weeks = Math.floor(length / 7);
+  let count = weeks * index.perWeek;
+  for (let day = from + weeks * 7; day <= to; day++) {
+    if (!index.weekend[weekdayOf(day)]) count++;
+  }
+  return count;
+}
+
+/**
+ * Day of the nth business day counting from a day (inclusive) in a direction: find the nth working
+ * weekday, then move past as many more as there were holidays on the way
+ */
+function nthBusinessDay(index: DayIndex, from: number, n: number, direction: 1 | -1): number {
+  for (;;) {
+    const weeks = Math.floor((n - 1) / index.perWeek);
+    let day = from + weeks * 7 * direction;
+    let left = n - weeks * index.perWeek;
+    while (index.weekend[weekdayOf(day)] || --left > 0) day += direction;
+
+    n = direction === 1 ? countHolidays(index, from, day) : countHolidays(index, day, from);
+    if (n === 0) return day;
+    from = day + direction;
+  }
+}
+
+/**
+ * Number of business days in [from, to]
+ */
+function countBusinessDays(index: DayIndex, from: number, to: number): number {
+  return countWeekdays(index, from, to) - countHolidays(index, from, to);
+}
+
+/**
+ * Instants in a local year at which the host's UTC offset changes, found by sampling weekly and bisecting
+ */
+function offsetChanges(year: number): number[] {
+  let changes = offsetChangeCache.get(year);
+  if (!changes) {
+    changes = [];
+    const offsetAt = (t: number) => new Date(t).getTimezoneOffset();
+    const end = new Date(year + 1, 0, 1).getTime();
+    for (let t = new Date(year, 0, 1).getTime(); t < end; t = Math.min(t + 7 * DAY_MS, end)) {
+      let lo = t;
+      let hi = Math.min(t + 7 * DAY_MS, end);
+      if (offsetAt(lo) === offsetAt(hi)) continue;
+      while (hi - lo > 1) {
+        const mid = lo + Math.floor((hi - lo) / 2);
+        if (offsetAt(mid) === offsetAt(lo)) lo = mid;
+        else hi = mid;
+      }
+      changes.push(hi);
+    }
+    offsetChangeCache.set(year, changes);
+  }
+  return changes;
+}
+
+/**
+ * Steps of 24 hours from an instant, as runs [first, last, day of first step] that land on consecutive
+ * local days. A UTC offset change can move a step's wall-clock time across midnight, so runs break there
+ * (and at year ends).
+ */
+function* stepRuns(t: number, direction: 1 | -1): Generator<[number, number, number]> {
+  let step = 1;
+  for (let year = new Date(t).getFullYear(); ; year += direction) {
+    const bounds = direction === 1
+      ? [...offsetChanges(year), new Date(year + 1, 0, 1).getTime()]
+      : [...offsetChanges(year)].reverse().concat(new Date(year, 0, 1).getTime());
+    for (const bound of bounds) {
+      const last = direction === 1 ? Math.ceil((bound - t) / DAY_MS) - 1 : Math.floor((t - bound) / DAY_MS);
+      if (last >= step) {
+        yield [step, last, dayNumber(new Date(t + direction * step * DAY_MS))];
+        step = last + 1;
+      }
+    }
+  }
+}
+
+/**
+ * Check if a date is a business day
+ */
+export function isBusinessDay(input: DateInput, options: BusinessDayOptions = {}): boolean {
+  const day = dayNumber(calendarDate(input));
+  if (isNaN(day)) return true;
+
+  const index = dayIndex(options);
+  if (index.weekend[weekdayOf(day)]) {
+    return false;
+  }
+
+  const holidays = holidaysOfYear(index, yearOf(day));
+  return holidays[lowerBound(holidays, day)] !== day;
 }
 
 /**
  * Get the next business day
  */
 export function nextBusinessDay(input: DateInput, options: BusinessDayOptions = {}): Date {
-  let d = addDays(input, 1);
-  while (!isBusinessDay(d, options)) {
-    d = addDays(d, 1);
-  }
-  return d;
+  return addBusinessDays(input, 1, options);
 }
 
 /**
  * Get the previous business day
  */
 export function prevBusinessDay(input: DateInput, options: BusinessDayOptions = {}): Date {
-  let d = subDays(input, 1);
-  while (!isBusinessDay(d, options)) {
-    d = subDays(d, 1);
-  }
-  return d;
+  return addBusinessDays(input, -1, options);
 }
 
 /**
- * Add business days to a date
+ * Add business days to a date. Whole weeks are skipped arithmetically and holidays counted by
+ * binary search, so the cost doesn't grow with the number of days.
  */
 export function addBusinessDays(input: DateInput, days: number, options: BusinessDayOptions = {}): Date {
-  let d = toDate(input);
-  let remaining = Math.abs(days);
-  const direction = days >= 0 ? 1 : -1;
+  const d = calendarDate(input);
+  const n = Math.ceil(Math.abs(days));
+  if (!(n > 0)) return d;
+  if (isNaN(d.getTime()) || !isFinite(n)) return new Date(NaN);
 
-  while (remaining > 0) {
-    d = addDays(d, direction);
-    if (isBusinessDay(d, options)) {
-      remaining--;
-    }
+  const index = dayIndex(options);
+  if (index.perWeek === 0) {
+    throw new RangeError('weekendDays leaves no business days');
   }
 
-  return d;
+  // Count whole runs of steps, then find the target within the run that reaches it
+  const direction = days >= 0 ? 1 : -1;
+  let remaining = n;
+  for (const [first, last, day] of stepRuns(d.getTime(), direction)) {
+    const lastDay = day + (last - first) * direction;
+    const count = countBusinessDays(index, Math.min(day, lastDay), Math.max(day, lastDay));
+    if (count >= remaining) {
+      const target = nthBusinessDay(index, day, remaining, direction);
+      return addDays(d, (first + (target - day) * direction) * direction);
+    }
+    remaining -= count;
+  }
+  return new Date(NaN);
 }
 
 /**
@@ -76,21 +288,22 @@ export function subBusinessDays(input: DateInput, days: number, options: Busines
 }
 
 /**
- * Get the number of business days between two dates
+ * Get the number of business days between two dates, counting the days stepped onto
+ * (excluding the start) until reaching the end
  */
 export function diffInBusinessDays(a: DateInput, b: DateInput, options: BusinessDayOptions = {}): number {
-  const start = toDate(a);
-  const end = toDate(b);
+  const start = calendarDate(a);
+  const end = calendarDate(b);
   const direction = start <= end ? 1 : -1;
+  const steps = Math.ceil(Math.abs(end.getTime() - start.getTime()) / DAY_MS);
+  if (!(steps > 0)) return 0;
 
-  let current = start;
+  const index = dayIndex(options);
   let count = 0;
-
-  while ((direction === 1 && current < end) || (direction === -1 && current > end)) {
-    current = addDays(current, direction);
-    if (isBusinessDay(current, options)) {
-      count++;
-    }
+  for (const [first, last, day] of stepRuns(start.getTime(), direction)) {
+    const lastDay = day + (Math.min(last, steps) - first) * direction;
+    count += countBusinessDays(index, Math.min(day, lastDay), Math.max(day, lastDay));
+    if (last >= steps) break;
   }
 
   return count * direction;
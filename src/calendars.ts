@@ -0,0 +1,178 @@
+/**
+ * Built-in holiday calendars. Each is a function, so unused calendars are dropped by bundlers.
+ */
+
+import type { HolidayCalendar, HolidayRule } from './types.js';
+import { holidayCalendar } from './holidays.js';
+
+// One-off holiday (month is 0-11)
+const once = (name: string, year: number, month: number, day: number): HolidayRule =>
+  ({ name, type: 'fixed', month, day, fromYear: year, toYear: year });
+
+/**
+ * US federal holidays (5 U.S.C. 6103), observed on the nearest weekday
+ */
+export function usFederalHolidays(): HolidayCalendar {
+  return holidayCalendar([
+    { name: "New Year's Day", type: 'fixed', month: 0, day: 1, observed: 'nearestWeekday' },
+    { name: 'Martin Luther King Jr. Day', type: 'nthWeekday', month: 0, weekday: 1, n: 3, fromYear: 1986 },
+    { name: "Washington's Birthday", type: 'nthWeekday', month: 1, weekday: 1, n: 3 },
+    { name: 'Memorial Day', type: 'lastWeekday', month: 4, weekday: 1 },
+    { name: 'Juneteenth', type: 'fixed', month: 5, day: 19, observed: 'nearestWeekday', fromYear: 2021 },
+    { name: 'Independence Day', type: 'fixed', month: 6, day: 4, observed: 'nearestWeekday' },
+    { name: 'Labor Day', type: 'nthWeekday', month: 8, weekday: 1, n: 1 },
+    { name: 'Columbus Day', type: 'nthWeekday', month: 9, weekday: 1, n: 2 },
+    { name: 'Veterans Day', type: 'fixed', month: 10, day: 11, observed: 'nearestWeekday' },
+    { name: 'Thanksgiving Day', type: 'nthWeekday', month: 10, weekday: 4, n: 4 },
+    { name: 'Christmas Day', type: 'fixed', month: 11, day: 25, observed: 'nearestWeekday' },
+  ]);
+}
+
+/**
+ * New York Stock Exchange full-day closures. New Year's Day on a Saturday is not observed.
+ * Unscheduled closures are included from 1985 on.
+ */
+export function nyseHolidays(): HolidayCalendar {
+  return holidayCalendar([
+    { name: "New Year's Day", type: 'fixed', month: 0, day: 1, observed: 'nextWeekdayIfSunday' },
+    { name: 'Martin Luther King Jr. Day', type: 'nthWeekday', month: 0, weekday: 1, n: 3, fromYear: 1998 },
+    { name: "Washington's Birthday", type: 'nthWeekday', month: 1, weekday: 1, n: 3 },
+    { name: 'Good Friday', type: 'easter', offset: -2 },
+    { name: 'Memorial Day', type: 'lastWeekday', month: 4, weekday: 1 },
+    { name: 'Juneteenth', type: 'fixed', month: 5, day: 19, observed: 'nearestWeekday', fromYear: 2022 },
+    { name: 'Independence Day', type: 'fixed', month: 6, day: 4, observed: 'nearestWeekday' },
+    { name: 'Labor Day', type: 'nthWeekday', month: 8, weekday: 1, n: 1 },
+    { name: 'Thanksgiving Day', type: 'nthWeekday', month: 10, weekday: 4, n: 4 },
+    { name: 'Christmas Day', type: 'fixed', month: 11, day: 25, observed: 'nearestWeekday' },
+    once('Hurricane Gloria', 1985, 8, 27),
+    once('National Day of Mourning', 1994, 3, 27),
+    once('September 11 attacks', 2001, 8, 11),
+    once('September 11 attacks', 2001, 8, 12),
+    once('September 11 attacks', 2001, 8, 13),
+    once('September 11 attacks', 2001, 8, 14),
+    once('National Day of Mourning', 2004, 5, 11),
+    once('National Day of Mourning', 2007, 0, 2),
+    once('Hurricane Sandy', 2012, 9, 29),
+    once('Hurricane Sandy', 2012, 9, 30),
+    once('National Day of Mourning', 2018, 11, 5),
+    once('National Day of Mourning', 2025, 0, 9),
+  ]);
+}
+
+/**
+ * UK bank holidays (England and Wales), with substitute days for weekends
+ */
+export function ukBankHolidays(): HolidayCalendar {
+  return holidayCalendar([
+    { name: "New Year's Day", type: 'fixed', month: 0, day: 1, observed: 'nextWeekday' },
+    { name: 'Good Friday', type: 'easter', offset: -2 },
+    { name: 'Easter Monday', type: 'easter', offset: 1 },
+    { name: 'Early May bank holiday', type: 'nthWeekday', month: 4, weekday: 1, n: 1, exceptYears: [1995, 2020] },
+    once('Early May bank holiday (VE Day)', 1995, 4, 8),
+    once('Early May bank holiday (VE Day)', 2020, 4, 8),
+    { name: 'Spring bank holiday', type: 'lastWeekday', month: 4, weekday: 1, exceptYears: [2002, 2012, 2022] },
+    once('Spring bank holiday', 2002, 5, 4),
+    once('Golden Jubilee', 2002, 5, 3),
+    once('Spring bank holiday', 2012, 5, 4),
+    once('Spring bank holiday', 2022, 5, 2),
+    { name: 'Summer bank holiday', type: 'lastWeekday', month: 7, weekday: 1 },
+    { name: 'Christmas Day', type: 'fixed', month: 11, day: 25, observed: 'nextWeekday' },
+    { name: 'Boxing Day', type: 'fixed', month: 11, day: 26, observed: 'nextWeekday' },
+    once('Millennium Celebrations', 1999, 11, 31),
+    once('Royal Wedding', 2011, 3, 29),
+    once('Diamond Jubilee', 2012, 5, 5),
+    once('Platinum Jubilee', 2022, 5, 3),
+    once('State Funeral of Queen Elizabeth II', 2022, 8, 19),
+    once('Coronation of King Charles III', 2023, 4, 8),
+  ]);
+}
+
+/**
+ * TARGET2 (euro area payments) closing days
+ */
+export function target2Holidays(): HolidayCalendar {
+  return holidayCalendar([
+    { name: "New Year's Day", type: 'fixed', month: 0, day: 1 },
+    { name: 'Good Friday', type: 'easter', offset: -2 },
+    { name: 'Easter Monday', type: 'easter', offset: 1 },
+    { name: 'Labour Day', type: 'fixed', month: 4, day: 1 },
+    { name: 'Christmas Day', type: 'fixed', month: 11, day: 25 },
+    { name: 'Christmas Holiday', type: 'fixed', month: 11, day: 26 },
+  ]);
+}
+
+/**
+ * Day of the March or September equinox in Japan (valid 1980-2099)
+ */
+function equinoxDay(year: number, base: number): number {
+  return Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+/**
+ * Japanese national holidays (as of the 2007 amendments), with substitute holidays for Sundays
+ * and the citizens' holiday between Respect for the Aged Day and the Autumnal Equinox
+ */
+export function japanHolidays(): HolidayCalendar {
+  const substitute = { observed: 'nextWeekdayIfSunday' } as const;
+  return holidayCalendar([
+    { name: "New Year's Day", type: 'fixed', month: 0, day: 1, ...substitute },
+    { name: 'Coming of Age Day', type: 'nthWeekday', month: 0, weekday: 1, n: 2, ...substitute },
+    { name: 'National Foundation Day', type: 'fixed', month: 1, day: 11, ...substitute },
+    { name: "Emperor's Birthday", type: 'fixed', month: 1, day: 23, fromYear: 2020, ...substitute },
+    { name: 'Vernal Equinox Day', type: 'custom', resolve: year => new Date(year, 2, equinoxDay(year, 20.8431)), ...substitute },
+    { name: 'Showa Day', type: 'fixed', month: 3, day: 29, ...substitute },
+    { name: 'Constitution Memorial Day', type: 'fixed', month: 4, day: 3, ...substitute },
+    { name: 'Greenery Day', type: 'fixed', month: 4, day: 4, ...substitute },
+    { name: "Children's Day", type: 'fixed', month: 4, day: 5, ...substitute },
+    { name: 'Marine Day', type: 'nthWeekday', month: 6, weekday: 1, n: 3, exceptYears: [2020, 2021], ...substitute },
+    { name: 'Mountain Day', type: 'fixed', month: 7, day: 11, fromYear: 2016, exceptYears: [2020, 2021], ...substitute },
+    { name: 'Respect for the Aged Day', type: 'nthWeekday', month: 8, weekday: 1, n: 3, ...substitute },
+    { name: "Citizens' Holiday", type: 'custom', resolve: year => {
+      const respectForTheAged = 15 + (8 - new Date(year, 8, 1).getDay()) % 7;
+      return equinoxDay(year, 23.2488) - respectForTheAged === 2 ? new Date(year, 8, respectForTheAged + 1) : null;
+    } },
+    { name: 'Autumnal Equinox Day', type: 'custom', resolve: year => new Date(year, 8, equinoxDay(year, 23.2488)), ...substitute },
+    { name: 'Sports Day', type: 'nthWeekday', month: 9, weekday: 1, n: 2, exceptYears: [2020, 2021], ...substitute },
+    { name: 'Culture Day', type: 'fixed', month: 10, day: 3, ...substitute },
+    { name: 'Labor Thanksgiving Day', type: 'fixed', month: 10, day: 23, ...substitute },
+    { name: "Emperor's Birthday", type: 'fixed', month: 11, day: 23, toYear: 2018, ...substitute },
+    once("Citizens' Holiday", 2019, 3, 30),
+    once('Enthronement Day', 2019, 4, 1),
+    once("Citizens' Holiday", 2019, 4, 2),
+    once('Enthronement Ceremony', 2019, 9, 22),
+    { ...once('Marine Day', 2020, 6, 23), ...substitute },
+    { ...once('Sports Day', 2020, 6, 24), ...substitute },
+    { ...once('Mountain Day', 2020, 7, 10), ...substitute },
+    { ...once('Marine Day', 2021, 6, 22), ...substitute },
+    { ...once('Sports Day', 2021, 6, 23), ...substitute },
+    { ...once('Mountain Day', 2021, 7, 8), ...substitute },
+  ]);
+}
+
+/**
+ * Mainland China statutory public holidays. The State Council's yearly schedule also bridges holidays
+ * to weekends with extra days off (pass those as holidays) and make-up weekend working days (not modelled).
+ */
+export function chinaHolidays(): HolidayCalendar {
+  // Qingming: the solar term around April 5 (valid 2001-2099)
+  const qingming = (year: number) => new Date(year, 3, Math.floor((year % 100) * 0.2422 + 4.81) - Math.floor((year % 100) / 4));
+  return holidayCalendar([
+    { name: "New Year's Day", type: 'fixed', month: 0, day: 1 },
+    { name: 'Spring Festival Eve', type: 'lunar', month: 1, day: 1, offset: -1, fromYear: 2008, toYear: 2013 },
+    { name: 'Spring Festival Eve', type: 'lunar', month: 1, day: 1, offset: -1, fromYear: 2025 },
+    { name: 'Spring Festival', type: 'lunar', month: 1, day: 1 },
+    { name: 'Spring Festival', type: 'lunar', month: 1, day: 2 },
+    { name: 'Spring Festival', type: 'lunar', month: 1, day: 3, toYear: 2007 },
+    { name: 'Spring Festival', type: 'lunar', month: 1, day: 3, fromYear: 2014 },
+    { name: 'Qingming Festival', type: 'custom', resolve: qingming, fromYear: 2008 },
+    { name: 'Labour Day', type: 'fixed', month: 4, day: 1 },
+    { name: 'Labour Day', type: 'fixed', month: 4, day: 2, toYear: 2007 },
+    { name: 'Labour Day', type: 'fixed', month: 4, day: 3, toYear: 2007 },
+    { name: 'Labour Day', type: 'fixed', month: 4, day: 2, fromYear: 2025 },
+    { name: 'Dragon Boat Festival', type: 'lunar', month: 5, day: 5, fromYear: 2008 },
+    { name: 'Mid-Autumn Festival', type: 'lunar', month: 8, day: 15, fromYear: 2008 },
+    { name: 'National Day', type: 'fixed', month: 9, day: 1 },
+    { name: 'National Day', type: 'fixed', month: 9, day: 2 },
+    { name: 'National Day', type: 'fixed', month: 9, day: 3 },
+  ]);
+}
@@ -2,22 +2,38 @@
  * Core date conversion functions
  */
 
-import type { DateInput } from './types.js';
+import type { DateInput, ToDateOptions } from './types.js';
+import { parseISO } from './iso.js';
 
 /**
- * Convert any input to a Date object
+ * Convert any input to a Date object.
+ * With strict: true, strings must be ISO 8601 and are parsed engine-independently.
  */
-export function toDate(input: DateInput): Date {
+export function toDate(input: DateInput, options: ToDateOptions = {}): Date {
   if (input instanceof Date) return new Date(input.getTime());
   if (typeof input === 'number') return new Date(input);
+  if (options.strict) return parseISO(input);
   return new Date(input);
 }
 
+/**
+ * Convert input to a Date, reading a date-only string ('2024-08-31') as that local calendar date
+ * rather than UTC midnight. For functions that work with calendar days.
+ */
+export function calendarDate(input: DateInput): Date {
+  const m = typeof input === 'string' ? input.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  if (!m) return toDate(input);
+  const [year, month, day] = [m[1], m[2], m[3]].map(Number);
+  const d = new Date(2000, 0, 1);
+  d.setFullYear(year, month - 1, day);
+  return d.getMonth() === month - 1 ? d : new Date(NaN);
+}
+
 /**
  * Check if input is a valid date
  */
-export function isValid(input: DateInput): boolean {
-  const d = toDate(input);
+export function isValid(input: DateInput, options: ToDateOptions = {}): boolean {
+  const d = toDate(input, options);
   return !isNaN(d.getTime());
 }
 
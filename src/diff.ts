@@ -2,43 +2,99 @@
  * Date difference calculations
  */
 
-import type { DateInput, Unit } from './types.js';
+import type { DateInput, DiffOptions, Duration, DurationUnit, TimeZoneOptions, Unit } from './types.js';
 import { toDate } from './core.js';
+import { add } from './arithmetic.js';
+import { zonedParts, wallTime } from './timezone.js';
+import { breakdown, duration } from './duration.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Wall-clock time as if it were UTC, so that calendar days are always 24 hours long
+ */
+function wallClockMs(d: Date, timeZone?: string): number {
+  if (timeZone) return wallTime(zonedParts(d, timeZone));
+  return d.getTime() - d.getTimezoneOffset() * 60 * 1000;
+}
+
+/**
+ * Months from b to a, with a fraction of the surrounding month (same algorithm as moment.js)
+ */
+function monthDiff(a: Date, b: Date, options: TimeZoneOptions): number {
+  const pa = options.timeZone ? zonedParts(a, options.timeZone) : { year: a.getFullYear(), month: a.getMonth(), day: a.getDate() };
+  const pb = options.timeZone ? zonedParts(b, options.timeZone) : { year: b.getFullYear(), month: b.getMonth(), day: b.getDate() };
+  if (pa.day < pb.day) return -monthDiff(b, a, options);
+
+  const whole = (pb.year - pa.year) * 12 + (pb.month - pa.month);
+  const anchor = add(a, whole, 'month', options).getTime();
+  const toB = b.getTime() - anchor;
+  const adjust = toB < 0
+    ? toB / (anchor - add(a, whole - 1, 'month', options).getTime())
+    : toB / (add(a, whole + 1, 'month', options).getTime() - anchor);
+  return -(whole + adjust) || 0;
+}
 
 /**
- * Get difference between two dates in specified unit
+ * Get difference between two dates (a - b) in the specified unit.
+ * Years and months are counted on the calendar, days and weeks by calendar day (ignoring DST),
+ * and time units by elapsed time. Whole units are truncated toward zero unless options.float is set.
  */
-export function diff(a: DateInput, b: DateInput, unit: Unit): number {
+export function diff(a: DateInput, b: DateInput, unit: Unit, options: DiffOptions = {}): number {
+  const { float = false, rounding = 'trunc', timeZone } = options;
   const d1 = toDate(a);
   const d2 = toDate(b);
   const diffMs = d1.getTime() - d2.getTime();
+  const calendarMs = wallClockMs(d1, timeZone) - wallClockMs(d2, timeZone);
 
+  let value: number;
   switch (unit) {
     case 'year':
-      return d1.getFullYear() - d2.getFullYear();
+      value = monthDiff(d1, d2, { timeZone }) / 12;
+      break;
     case 'month':
-      return (d1.getFullYear() - d2.getFullYear()) * 12 + (d1.getMonth() - d2.getMonth());
+      value = monthDiff(d1, d2, { timeZone });
+      break;
     case 'week':
-      return Math.floor(diffMs / (7 * 24 * 60 * 60 * 1000));
+      value = calendarMs / (7 * DAY_MS);
+      break;
     case 'day':
-      return Math.floor(diffMs / (24 * 60 * 60 * 1000));
+      value = calendarMs / DAY_MS;
+      break;
     case 'hour':
-      return Math.floor(diffMs / (60 * 60 * 1000));
+      value = diffMs / (60 * 60 * 1000);
+      break;
     case 'minute':
-      return Math.floor(diffMs / (60 * 1000));
+      value = diffMs / (60 * 1000);
+      break;
     case 'second':
-      return Math.floor(diffMs / 1000);
-    case 'millisecond':
-      return diffMs;
+      value = diffMs / 1000;
+      break;
     default:
-      return diffMs;
+      value = diffMs;
+  }
+
+  return float ? value : Math[rounding](value) + 0;
+}
+
+/**
+ * Break the difference between two dates (a - b) into the given units, counted on the calendar
+ * (e.g., ['years', 'months', 'days'] for an age). The smallest unit is rounded like diff.
+ */
+export function diffBreakdown(a: DateInput, b: DateInput, units: DurationUnit[], options: DiffOptions = {}): Duration {
+  const { float = false, rounding = 'trunc', timeZone } = options;
+  const parts = breakdown(toDate(b), toDate(a), units, { timeZone });
+  const smallest = Object.keys(parts).pop() as DurationUnit | undefined;
+  if (!float && smallest !== undefined) {
+    parts[smallest] = Math[rounding](parts[smallest] ?? 0) + 0;
   }
+  return duration(parts);
 }
 
-export const diffInYears = (a: DateInput, b: DateInput) => diff(a, b, 'year');
-export const diffInMonths = (a: DateInput, b: DateInput) => diff(a, b, 'month');
-export const diffInWeeks = (a: DateInput, b: DateInput) => diff(a, b, 'week');
-export const diffInDays = (a: DateInput, b: DateInput) => diff(a, b, 'day');
-export const diffInHours = (a: DateInput, b: DateInput) => diff(a, b, 'hour');
-export const diffInMinutes = (a: DateInput, b: DateInput) => diff(a, b, 'minute');
-export const diffInSeconds = (a: DateInput, b: DateInput) => diff(a, b, 'second');
+export const diffInYears = (a: DateInput, b: DateInput, options?: DiffOptions) => diff(a, b, 'year', options);
+export const diffInMonths = (a: DateInput, b: DateInput, options?: DiffOptions) => diff(a, b, 'month', options);
+export const diffInWeeks = (a: DateInput, b: DateInput, options?: DiffOptions) => diff(a, b, 'week', options);
+export const diffInDays = (a: DateInput, b: DateInput, options?: DiffOptions) => diff(a, b, 'day', options);
+export const diffInHours = (a: DateInput, b: DateInput, options?: DiffOptions) => diff(a, b, 'hour', options);
+export const diffInMinutes = (a: DateInput, b: DateInput, options?: DiffOptions) => diff(a, b, 'minute', options);
+export const diffInSeconds = (a: DateInput, b: DateInput, options?: DiffOptions) => diff(a, b, 'second', options);
@@ -2,77 +2,473 @@
  * Duration functions
  */
 
-import type { DateInput, Duration, Unit } from './types.js';
+import type {
+  DateInput, Duration, DurationComponents, DurationFormatOptions, DurationLike, DurationUnit,
+  RoundingMode, TimeZoneOptions, Unit,
+} from './types.js';
 import { toDate } from './core.js';
+import { add } from './arithmetic.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Units from largest to smallest
+const DURATION_UNITS: DurationUnit[] = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'];
+
+// Fixed lengths used when no anchor date is given (years and months are approximate)
+const UNIT_MS: Record<DurationUnit, number> = {
+  years: 365 * DAY_MS,
+  months: 30 * DAY_MS,
+  weeks: 7 * DAY_MS,
+  days: DAY_MS,
+  hours: 60 * 60 * 1000,
+  minutes: 60 * 1000,
+  seconds: 1000,
+  milliseconds: 1,
+};
+
+const UNIT_TO_COMPONENT: Record<Unit, DurationUnit> = {
+  year: 'years',
+  month: 'months',
+  week: 'weeks',
+  day: 'days',
+  hour: 'hours',
+  minute: 'minutes',
+  second: 'seconds',
+  millisecond: 'milliseconds',
+};
+
+function components(c: DurationLike): DurationComponents {
+  return {
+    years: c.years ?? 0,
+    months: c.months ?? 0,
+    weeks: c.weeks ?? 0,
+    days: c.days ?? 0,
+    hours: c.hours ?? 0,
+    minutes: c.minutes ?? 0,
+    seconds: c.seconds ?? 0,
+    milliseconds: c.milliseconds ?? 0,
+  };
+}
+
+// Apply a function to every component
+function mapParts(p: DurationLike, fn: (value: number, unit: DurationUnit) => number): DurationComponents {
+  const c = components(p);
+  const result = { ...c };
+  for (const unit of DURATION_UNITS) result[unit] = fn(c[unit], unit) + 0;  // + 0 drops -0
+  return result;
+}
 
 /**
- * Create a duration from milliseconds
+ * Split exact milliseconds into hours, minutes, seconds and milliseconds (keeping the sign).
+ * Days are left out since they are calendar days when the duration is applied.
  */
-export function duration(ms: number): Duration;
-export function duration(amount: number, unit: Unit): Duration;
-export function duration(amountOrMs: number, unit?: Unit): Duration {
-  let totalMs: number;
-
-  if (unit) {
-    switch (unit) {
-      case 'year': totalMs = amountOrMs * 365 * 24 * 60 * 60 * 1000; break;
-      case 'month': totalMs = amountOrMs * 30 * 24 * 60 * 60 * 1000; break;
-      case 'week': totalMs = amountOrMs * 7 * 24 * 60 * 60 * 1000; break;
-      case 'day': totalMs = amountOrMs * 24 * 60 * 60 * 1000; break;
-      case 'hour': totalMs = amountOrMs * 60 * 60 * 1000; break;
-      case 'minute': totalMs = amountOrMs * 60 * 1000; break;
-      case 'second': totalMs = amountOrMs * 1000; break;
-      case 'millisecond': totalMs = amountOrMs; break;
-      default: totalMs = amountOrMs;
+function splitMs(ms: number): DurationLike {
+  const sign = ms < 0 ? -1 : 1;
+  const abs = Math.abs(ms);
+  return mapParts({
+    hours: Math.floor(abs / (60 * 60 * 1000)),
+    minutes: Math.floor((abs % (60 * 60 * 1000)) / (60 * 1000)),
+    seconds: Math.floor((abs % (60 * 1000)) / 1000),
+    milliseconds: abs % 1000,
+  }, v => v * sign);
+}
+
+function totalMsOf(p: DurationLike): number {
+  const c = components(p);
+  return DURATION_UNITS.reduce((sum, u) => sum + c[u] * UNIT_MS[u], 0);
+}
+
+/**
+ * Break the span between two instants into the given units (largest first), applying calendar
+ * units on the calendar. The smallest unit carries any fractional remainder.
+ */
+export function breakdown(start: Date, end: Date, units: DurationUnit[], options: TimeZoneOptions = {}): DurationLike {
+  const ordered = DURATION_UNITS.filter(u => units.includes(u));
+  const sign = end >= start ? 1 : -1;
+  const endTime = end.getTime();
+  const overshoots = (t: Date) => (sign > 0 ? t.getTime() > endTime : t.getTime() < endTime);
+  const result: DurationLike = {};
+  let cursor = start;
+
+  ordered.forEach((unit, i) => {
+    if (i === ordered.length - 1) {
+      // Fraction of this unit's actual length at the cursor
+      const length = add(cursor, { [unit]: sign }, options).getTime() - cursor.getTime();
+      result[unit] = ((endTime - cursor.getTime()) / length) * sign;
+      return;
     }
-  } else {
-    totalMs = amountOrMs;
+
+    let n = Math.trunc((endTime - cursor.getTime()) / UNIT_MS[unit]);
+    while (!overshoots(add(cursor, { [unit]: n + sign }, options))) n += sign;
+    while (n !== 0 && overshoots(add(cursor, { [unit]: n }, options))) n -= sign;
+    result[unit] = n;
+    cursor = add(cursor, { [unit]: n }, options);
+  });
+
+  return result;
+}
+
+function toISODuration(p: DurationComponents): string {
+  // A uniformly negative duration gets a leading sign; mixed signs stay per component
+  if (DURATION_UNITS.every(u => p[u] <= 0) && DURATION_UNITS.some(u => p[u] < 0)) {
+    return '-' + toISODuration(mapParts(p, v => -v));
   }
 
-  const absMs = Math.abs(totalMs);
+  const weeksOnly = p.weeks !== 0 && DURATION_UNITS.every(u => u === 'weeks' || p[u] === 0);
+  if (weeksOnly) return `P${p.weeks}W`;
 
-  const years = Math.floor(absMs / (365 * 24 * 60 * 60 * 1000));
-  const months = Math.floor((absMs % (365 * 24 * 60 * 60 * 1000)) / (30 * 24 * 60 * 60 * 1000));
-  const weeks = Math.floor((absMs % (30 * 24 * 60 * 60 * 1000)) / (7 * 24 * 60 * 60 * 1000));
-  const days = Math.floor((absMs % (7 * 24 * 60 * 60 * 1000)) / (24 * 60 * 60 * 1000));
-  const hours = Math.floor((absMs % (24 * 60 * 60 * 1000)) / (60 * 60 * 1000));
-  const minutes = Math.floor((absMs % (60 * 60 * 1000)) / (60 * 1000));
-  const seconds = Math.floor((absMs % (60 * 1000)) / 1000);
-  const milliseconds = absMs % 1000;
+  const days = p.days + p.weeks * 7;
+  const seconds = Math.round((p.seconds + p.milliseconds / 1000) * 1000) / 1000;
 
+  const date = (p.years ? `${p.years}Y` : '') + (p.months ? `${p.months}M` : '') + (days ? `${days}D` : '');
+  const time = (p.hours ? `${p.hours}H` : '') + (p.minutes ? `${p.minutes}M` : '') + (seconds ? `${seconds}S` : '');
+
+  if (!date && !time) return 'PT0S';
+  return `P${date}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * Carry overflowing time units into larger ones (ms → s → min → h) and months into years.
+ * Days and weeks are left alone since their length depends on the calendar.
+ */
+function normalizeParts(p: DurationComponents): DurationComponents {
+  const timeMs = p.hours * UNIT_MS.hours + p.minutes * UNIT_MS.minutes + p.seconds * 1000 + p.milliseconds;
+  const totalMonths = p.years * 12 + p.months;
+  const time = splitMs(timeMs);
   return {
-    years,
-    months,
-    weeks,
-    days,
-    hours,
-    minutes,
-    seconds,
-    milliseconds,
+    years: Math.trunc(totalMonths / 12) + 0,
+    months: totalMonths % 12 + 0,
+    weeks: p.weeks,
+    days: p.days,
+    hours: time.hours ?? 0,
+    minutes: time.minutes ?? 0,
+    seconds: time.seconds ?? 0,
+    milliseconds: time.milliseconds ?? 0,
+  };
+}
+
+/**
+ * Round to a whole number of a unit, folding smaller components in with fixed lengths
+ */
+function roundParts(p: DurationComponents, target: DurationUnit, mode: RoundingMode): DurationComponents {
+  const index = DURATION_UNITS.indexOf(target);
+  const smallerMs = DURATION_UNITS.slice(index + 1).reduce((sum, u) => sum + p[u] * UNIT_MS[u], 0);
+  const value = p[target] + smallerMs / UNIT_MS[target];
+  // Round the magnitude so negative durations mirror positive ones
+  const rounded = Math.sign(value) * Math[mode](Math.abs(value));
+  return mapParts(p, (v, u) => (u === target ? rounded : DURATION_UNITS.indexOf(u) > index ? 0 : v));
+}
+
+/**
+ * Express a duration in the given units, on the calendar from an anchor date
+ * or with fixed unit lengths without one (12-month years; 30-day months or 365-day years against days)
+ */
+function shiftParts(p: DurationComponents, units: DurationUnit[], anchor?: DateInput): DurationLike {
+  const ordered = DURATION_UNITS.filter(u => units.includes(u));
+  if (ordered.length === 0) return {};
+
+  if (anchor !== undefined) {
+    const start = toDate(anchor);
+    return breakdown(start, add(start, p), ordered);
+  }
+
+  // Years and months convert exactly (12 months a year); only crossing into days and smaller uses
+  // 30-day months, or 365-day years when months aren't among the units
+  const monthMs = ordered.includes('months') ? UNIT_MS.months : UNIT_MS.years / 12;
+  const calendar = ordered.includes('years') || ordered.includes('months');
+  const length = (unit: DurationUnit) => (unit === 'years' ? 12 * monthMs : unit === 'months' ? monthMs : UNIT_MS[unit]);
+  let remaining = calendar ? (p.years * 12 + p.months) * monthMs + totalMsOf({ ...p, years: 0, months: 0 }) : totalMsOf(p);
+  const result: DurationLike = {};
+  ordered.forEach((unit, i) => {
+    const value = i === ordered.length - 1 ? remaining / length(unit) : Math.trunc(remaining / length(unit));
+    result[unit] = value;
+    remaining -= value * length(unit);
+  });
+  return result;
+}
+
+/**
+ * Carry weeks and exact time up into years and months with fixed lengths (400 days → 1 year,
+ * 1 month, 5 days), adding to the calendar years and months already there
+ */
+function balanceUp(p: DurationComponents): DurationComponents {
+  // 365-day years first, then 30-day months from what is left
+  const withYears = components(shiftParts({ ...p, years: 0, months: 0 }, DURATION_UNITS.filter(u => u !== 'months')));
+  const rest = { ...components(shiftParts({ ...withYears, years: 0 }, DURATION_UNITS.slice(1))), years: withYears.years };
+  const months = (p.years + rest.years) * 12 + p.months + rest.months;
+  return { ...rest, years: Math.trunc(months / 12) + 0, months: months % 12 + 0 };
+}
+
+function createDuration(c: DurationLike): Duration {
+  const parts = components(c);
+  const totalMs = totalMsOf(parts);
+
+  const self: Duration = {
+    ...parts,
     asMilliseconds: () => totalMs,
     asSeconds: () => totalMs / 1000,
     asMinutes: () => totalMs / (60 * 1000),
     asHours: () => totalMs / (60 * 60 * 1000),
     asDays: () => totalMs / (24 * 60 * 60 * 1000),
     asWeeks: () => totalMs / (7 * 24 * 60 * 60 * 1000),
-    humanize: (locale = 'en') => {
-      const rtf = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
-      if (years > 0) return rtf.format(years, 'year').replace(/^in /, '').replace(/ ago$/, '');
-      if (months > 0) return rtf.format(months, 'month').replace(/^in /, '').replace(/ ago$/, '');
-      if (weeks > 0) return rtf.format(weeks, 'week').replace(/^in /, '').replace(/ ago$/, '');
-      if (days > 0) return rtf.format(days, 'day').replace(/^in /, '').replace(/ ago$/, '');
-      if (hours > 0) return rtf.format(hours, 'hour').replace(/^in /, '').replace(/ ago$/, '');
-      if (minutes > 0) return rtf.format(minutes, 'minute').replace(/^in /, '').replace(/ ago$/, '');
-      return rtf.format(seconds, 'second').replace(/^in /, '').replace(/ ago$/, '');
+    asMonths: () => totalMs / UNIT_MS.months,
+    asYears: () => totalMs / UNIT_MS.years,
+    humanize: (locale = 'en') => formatDuration(balanceUp(components(self.abs())), { locale, maxUnits: 1 }),
+    toISO: () => toISODuration(parts),
+    normalize: () => createDuration(normalizeParts(parts)),
+    shiftTo: (units: DurationUnit[], anchor?: DateInput) => createDuration(shiftParts(parts, units, anchor)),
+    plus: (other: DurationLike) => {
+      const o = components(other);
+      return createDuration(mapParts(parts, (v, u) => v + o[u]));
+    },
+    minus: (other: DurationLike) => {
+      const o = components(other);
+      return createDuration(mapParts(parts, (v, u) => v - o[u]));
+    },
+    negate: () => createDuration(mapParts(parts, v => -v)),
+    multiply: (factor: number) => createDuration(mapParts(parts, v => v * factor)),
+    abs: () => createDuration(totalMs < 0 ? mapParts(parts, v => -v) : parts),
+    compare: (other: DurationLike, anchor?: DateInput) => {
+      if (anchor !== undefined) {
+        const start = toDate(anchor);
+        return Math.sign(add(start, parts).getTime() - add(start, other).getTime());
+      }
+      return Math.sign(totalMs - totalMsOf(other));
     },
+    equals: (other: DurationLike) => {
+      const o = components(other);
+      return DURATION_UNITS.every(u => parts[u] === o[u]);
+    },
+    isZero: () => DURATION_UNITS.every(u => parts[u] === 0),
+    round: (unit: Unit, mode: RoundingMode = 'round') => createDuration(roundParts(parts, UNIT_TO_COMPONENT[unit], mode)),
   };
+  return self;
 }
 
 /**
- * Get duration between two dates
+ * Create a duration from milliseconds, an amount of a unit, or components.
+ * Years, months, weeks and days are kept as calendar components; exact time is balanced up to hours.
+ */
+export function duration(ms: number): Duration;
+export function duration(amount: number, unit: Unit): Duration;
+export function duration(components: DurationLike): Duration;
+export function duration(amountOrMs: number | DurationLike, unit?: Unit): Duration {
+  if (typeof amountOrMs === 'object') {
+    return createDuration(amountOrMs);
+  }
+
+  if (unit === 'year' || unit === 'month' || unit === 'week' || unit === 'day') {
+    return createDuration({ [UNIT_TO_COMPONENT[unit]]: amountOrMs });
+  }
+
+  const totalMs = unit ? amountOrMs * UNIT_MS[UNIT_TO_COMPONENT[unit]] : amountOrMs;
+  return createDuration(splitMs(totalMs));
+}
+
+/**
+ * Parse an ISO 8601 duration (e.g., "P1Y2M3DT4H", "PT1H30M", "P2W", "-P1D").
+ * Only the smallest component may be fractional; fractional years and months are rejected.
+ */
+export function parseDuration(input: string): Duration {
+  const sign = input.startsWith('-') ? -1 : 1;
+  const str = input.replace(/^[+-]/, '');
+  const num = '(\\d+(?:[.,]\\d+)?)';
+  const m = str.match(new RegExp(`^P(?:${num}Y)?(?:${num}M)?(?:${num}W)?(?:${num}D)?(?:T(?:${num}H)?(?:${num}M)?(?:${num}S)?)?$`));
+  const invalid = () => new RangeError(`Invalid ISO 8601 duration: ${input}`);
+
+  if (!m || str.endsWith('T') || m.slice(1).every(v => v === undefined)) throw invalid();
+
+  const units: DurationUnit[] = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds'];
+  const values = m.slice(1).map(v => (v === undefined ? undefined : parseFloat(v.replace(',', '.'))));
+  const last = values.reduce<number>((idx, v, i) => (v === undefined ? idx : i), -1);
+  const result: DurationLike = {};
+  let fractionMs = 0;
+
+  values.forEach((value, i) => {
+    if (value === undefined) return;
+    const unit = units[i];
+    const whole = Math.trunc(value);
+    if (whole !== value) {
+      if (i !== last || unit === 'years' || unit === 'months') throw invalid();
+      fractionMs = Math.round((value - whole) * UNIT_MS[unit]);
+    }
+    result[unit] = whole;
+  });
+
+  // A fraction of a week can include whole days
+  const fractionDays = Math.trunc(fractionMs / DAY_MS);
+  const fraction = { ...splitMs(fractionMs - fractionDays * DAY_MS), days: fractionDays };
+  for (const unit of ['days', 'hours', 'minutes', 'seconds', 'milliseconds'] as const) {
+    result[unit] = (result[unit] ?? 0) + (fraction[unit] ?? 0);
+  }
+
+  return createDuration(mapParts(result, v => v * sign));
+}
+
+/**
+ * Get duration between two dates, counting years, months and days on the calendar
  */
 export function durationBetween(a: DateInput, b: DateInput): Duration {
   const d1 = toDate(a);
   const d2 = toDate(b);
-  return duration(Math.abs(d1.getTime() - d2.getTime()));
+  const [start, end] = d1 <= d2 ? [d1, d2] : [d2, d1];
+  const parts = breakdown(start, end, ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds']);
+  return createDuration({ ...parts, milliseconds: Math.round(parts.milliseconds ?? 0) });
+}
+
+type DurationStyle = NonNullable<DurationFormatOptions['style']>;
+
+// Intl.DurationFormat is not yet in every runtime (or in TypeScript's lib)
+interface DurationFormatter {
+  format(duration: DurationLike): string;
+}
+type DurationFormatConstructor = new (locale: string, options: { style: DurationStyle }) => DurationFormatter;
+const NativeDurationFormat = (Intl as unknown as { DurationFormat?: DurationFormatConstructor }).DurationFormat;
+
+const CLOCK_UNITS: DurationUnit[] = ['hours', 'minutes', 'seconds'];
+
+const durationFormatCache = new Map<string, DurationFormatter>();
+const unitFormatCache = new Map<string, Intl.NumberFormat>();
+const listFormatCache = new Map<string, Intl.ListFormat>();
+
+function getDurationFormatter(Ctor: DurationFormatConstructor, locale: string, style: DurationStyle): DurationFormatter {
+  const key = JSON.stringify([locale, style]);
+  let formatter = durationFormatCache.get(key);
+  if (!formatter) {
+    formatter = new Ctor(locale, { style });
+    durationFormatCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+function getNumberFormatter(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = JSON.stringify([locale, options]);
+  let formatter = unitFormatCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    unitFormatCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+function getListFormatter(locale: string, style: Intl.ListFormatStyle): Intl.ListFormat {
+  const key = JSON.stringify([locale, style]);
+  let formatter = listFormatCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.ListFormat(locale, { type: 'unit', style });
+    listFormatCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Rebalance components of mixed sign so they all share the sign of the whole (1 hour minus
+ * 30 minutes → 30 minutes). Years and months balance exactly; the rest, with fixed lengths,
+ * borrows 30-day months when it still disagrees (1 year minus 1 day → 11 months, 29 days).
+ */
+function balanceSigns(p: DurationComponents): DurationComponents {
+  if (!DURATION_UNITS.some(u => p[u] > 0) || !DURATION_UNITS.some(u => p[u] < 0)) return p;
+
+  let months = p.years * 12 + p.months;
+  let restMs = totalMsOf({ ...p, years: 0, months: 0 });
+  let largest = DURATION_UNITS.findIndex(u => UNIT_MS[u] <= UNIT_MS.weeks && p[u] !== 0);
+  if (months * restMs < 0) {
+    const borrowed = Math.min(Math.abs(months), Math.ceil(Math.abs(restMs) / UNIT_MS.months)) * Math.sign(months);
+    months -= borrowed;
+    restMs += borrowed * UNIT_MS.months;
+    largest = Math.min(largest, DURATION_UNITS.indexOf('days'));
+  }
+
+  const rest = components(shiftParts(components({ milliseconds: restMs }), DURATION_UNITS.slice(Math.max(largest, 0))));
+  return { ...rest, years: Math.trunc(months / 12) + 0, months: months % 12 + 0 };
+}
+
+/**
+ * Pick the components to display: restricted to options.units, cut to options.maxUnits,
+ * with everything smaller folded into the last unit shown and rounded
+ */
+function displayParts(p: DurationComponents, options: DurationFormatOptions): DurationLike {
+  const { units, maxUnits, round = 'trunc', style } = options;
+  const source = units ? components(shiftParts(p, units)) : p;
+  const allowed = units ? DURATION_UNITS.filter(u => units.includes(u)) : DURATION_UNITS;
+
+  let shown = allowed.filter(u => source[u] !== 0);
+  if (maxUnits !== undefined) shown = shown.slice(0, Math.max(1, maxUnits));
+  if (style === 'digital') {
+    // Days and larger stay as words; the clock always shows h:mm:ss
+    shown = [...shown.filter(u => UNIT_MS[u] >= DAY_MS), ...CLOCK_UNITS];
+  }
+  if (shown.length === 0) shown = [units ? allowed[allowed.length - 1] : 'seconds'];
+
+  const rounded = roundParts(source, shown[shown.length - 1], round);
+
+  // Rounding up can overflow into the next unit shown (59 minutes, 50 seconds → 60 minutes → 1 hour)
+  const ratioOf = (larger: DurationUnit, unit: DurationUnit) =>
+    (larger === 'years' && unit === 'months' ? 12 : UNIT_MS[larger] / UNIT_MS[unit]);
+  for (let i = shown.length - 1; i > 0; i--) {
+    const [larger, unit] = [shown[i - 1], shown[i]];
+    const ratio = ratioOf(larger, unit);
+    if (!Number.isInteger(ratio)) continue;
+    const carry = Math.trunc(rounded[unit] / ratio);
+    rounded[larger] += carry;
+    rounded[unit] -= carry * ratio;
+  }
+
+  // ...and past the largest unit shown, when it only reached a whole larger unit by rounding
+  while (style !== 'digital' && allowed.indexOf(shown[0]) > 0) {
+    const [larger, unit] = [allowed[allowed.indexOf(shown[0]) - 1], shown[0]];
+    const ratio = ratioOf(larger, unit);
+    if (!Number.isInteger(ratio) || Math.abs(source[unit]) >= ratio || Math.abs(rounded[unit]) < ratio) break;
+    const carry = Math.trunc(rounded[unit] / ratio);
+    rounded[larger] += carry;
+    rounded[unit] -= carry * ratio;
+    shown = [larger, ...shown];
+  }
+
+  // A carry can leave zeros behind; the digital clock keeps them
+  const kept = style === 'digital' ? shown : shown.filter(u => rounded[u] !== 0);
+  const result: DurationLike = {};
+  for (const unit of kept.length > 0 ? kept : shown.slice(-1)) result[unit] = rounded[unit] + 0;
+  return result;
+}
+
+/**
+ * Format a duration with Intl.NumberFormat unit styles joined by Intl.ListFormat
+ */
+function formatWithUnits(parts: DurationLike, locale: string, style: DurationStyle): string {
+  const entries = DURATION_UNITS.filter(u => parts[u] !== undefined).map(u => [u, parts[u] ?? 0] as const);
+  // The sign is shown once, on the leading value
+  const negative = entries.some(([, v]) => v < 0);
+  const signed = (v: number, i: number) => (negative && i === 0 ? -Math.abs(v) : Math.abs(v));
+  const unitDisplay = style === 'digital' ? 'short' : style;
+  const unitValue = (unit: DurationUnit, value: number) =>
+    getNumberFormatter(locale, { style: 'unit', unit: unit.slice(0, -1), unitDisplay }).format(value);
+
+  if (style !== 'digital') {
+    return getListFormatter(locale, style).format(entries.map(([u, v], i) => unitValue(u, signed(v, i))));
+  }
+
+  const words = entries.filter(([u]) => !CLOCK_UNITS.includes(u));
+  const [hours, minutes, seconds] = CLOCK_UNITS.map(u => parts[u] ?? 0);
+  const twoDigit = getNumberFormatter(locale, { minimumIntegerDigits: 2 });
+  const clock = [
+    getNumberFormatter(locale, {}).format(signed(hours, words.length)),
+    twoDigit.format(Math.abs(minutes)),
+    twoDigit.format(Math.abs(seconds)),
+  ].join(':');
+  return getListFormatter(locale, 'short').format([...words.map(([u, v], i) => unitValue(u, signed(v, i))), clock]);
+}
+
+/**
+ * Format a duration for display (e.g., "2 hours, 5 minutes", "2 hr, 5 min", "2:05:00").
+ * Uses Intl.DurationFormat when available, falling back to Intl.NumberFormat and Intl.ListFormat.
+ */
+export function formatDuration(dur: DurationLike, options: DurationFormatOptions = {}): string {
+  const { locale = 'en', style = 'long' } = options;
+  const parts = displayParts(balanceSigns(components(dur)), options);
+
+  if (NativeDurationFormat) {
+    return getDurationFormatter(NativeDurationFormat, locale, style).format(parts);
+  }
+  return formatWithUnits(parts, locale, style);
 }
@@ -0,0 +1,119 @@
+/**
+ * Financial date conventions: day-count fractions and business-day rolls
+ */
+
+import type { DateInput, BusinessDayOptions, DayCountConvention, RollConvention, RollOptions } from './types.js';
+import { calendarDate } from './core.js';
+import { isLeapYear } from './utils.js';
+import { dayNumber, isBusinessDay, nextBusinessDay, prevBusinessDay } from './business.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysInYear = (year: number) => (isLeapYear(new Date(year, 0, 1)) ? 366 : 365);
+
+/**
+ * Get the year fraction between two dates under a day-count convention (negative if end is before start).
+ * Only the calendar dates count, not the time of day; date-only strings are local dates.
+ */
+export function dayCountFraction(start: DateInput, end: DateInput, convention: DayCountConvention): number {
+  const d1 = calendarDate(start);
+  const d2 = calendarDate(end);
+  if (dayNumber(d2) < dayNumber(d1)) return -dayCountFraction(d2, d1, convention);
+
+  const actual = dayNumber(d2) - dayNumber(d1);
+  switch (convention) {
+    case '30/360':
+    case '30E/360': {
+      // 30/360 (bond basis) only moves the end from the 31st when the start is at month end
+      let day1 = d1.getDate();
+      let day2 = d2.getDate();
+      if (day1 === 31) day1 = 30;
+      if (day2 === 31 && (convention === '30E/360' || day1 === 30)) day2 = 30;
+      const days = 360 * (d2.getFullYear() - d1.getFullYear()) + 30 * (d2.getMonth() - d1.getMonth()) + (day2 - day1);
+      return days / 360;
+    }
+    case 'ACT/360':
+      return actual / 360;
+    case 'ACT/365F':
+      return actual / 365;
+    case 'ACT/ACT ISDA': {
+      // Days in each calendar year over that year's length
+      const y1 = d1.getFullYear();
+      const y2 = d2.getFullYear();
+      if (y1 === y2) return actual / daysInYear(y1);
+      const firstYear = (Date.UTC(y1 + 1, 0, 1) / DAY_MS - dayNumber(d1)) / daysInYear(y1);
+      const lastYear = (dayNumber(d2) - Date.UTC(y2, 0, 1) / DAY_MS) / daysInYear(y2);
+      return firstYear + (y2 - y1 - 1) + lastYear;
+    }
+    default:
+      throw new RangeError(`Unknown day-count convention: ${convention}`);
+  }
+}
+
+/**
+ * The calendar day of a business day found by stepping, at the wall-clock time of the date it
+ * was found from (stepping is in whole 24 hours, which drifts across DST changes)
+ */
+function onDay(day: Date, from: Date): Date {
+  const result = new Date(from);
+  result.setFullYear(day.getFullYear(), day.getMonth(), day.getDate());
+  return result;
+}
+
+const following = (d: Date, options: BusinessDayOptions) => onDay(nextBusinessDay(d, options), d);
+const preceding = (d: Date, options: BusinessDayOptions) => onDay(prevBusinessDay(d, options), d);
+
+/**
+ * Move a date that isn't a business day to one, per a roll convention. The modified conventions
+ * roll the other way instead of crossing into another month.
+ */
+export function rollDate(input: DateInput, convention: RollConvention, options: BusinessDayOptions = {}): Date {
+  const d = calendarDate(input);
+  if (isBusinessDay(d, options)) return d;
+
+  switch (convention) {
+    case 'following':
+      return following(d, options);
+    case 'preceding':
+      return preceding(d, options);
+    case 'modifiedFollowing': {
+      const result = following(d, options);
+      return result.getMonth() === d.getMonth() ? result : preceding(d, options);
+    }
+    case 'modifiedPreceding': {
+      const result = preceding(d, options);
+      return result.getMonth() === d.getMonth() ? result : following(d, options);
+    }
+    default:
+      throw new RangeError(`Unknown roll convention: ${convention}`);
+  }
+}
+
+/**
+ * Last business day of the month a date is in, at the date's time of day
+ */
+function lastBusinessDayOfMonth(d: Date, options: BusinessDayOptions): Date {
+  const last = new Date(d);
+  last.setFullYear(d.getFullYear(), d.getMonth() + 1, 0);
+  return isBusinessDay(last, options) ? last : preceding(last, options);
+}
+
+/**
+ * Add months for a coupon or payment schedule, then roll the result to a business day
+ * (default: 'modifiedFollowing'). With endOfMonth, a date on or after the last business day
+ * of its month moves to the last business day of the target month.
+ */
+export function addMonthsRolled(input: DateInput, months: number, options: RollOptions = {}): Date {
+  const { roll = 'modifiedFollowing', endOfMonth = false } = options;
+  const d = calendarDate(input);
+  const target = new Date(d);
+  target.setFullYear(d.getFullYear(), d.getMonth() + months, 1);
+
+  if (endOfMonth && dayNumber(d) >= dayNumber(lastBusinessDayOfMonth(d, options))) {
+    return lastBusinessDayOfMonth(target, options);
+  }
+
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(d.getDate(), lastDay));
+  return rollDate(target, roll, options);
+}
@@ -2,7 +2,9 @@
  * Date formatting and parsing functions
  */
 
-import type { DateInput, FormatOptions } from './types.js';
+import type {
+  DateInput, FormatOptions, FormatPart, ParseError, ParseErrorCode, ParseOptions, ParseResult,
+} from './types.js';
 import { toDate } from './core.js';
 
 // Cache formatters for performance
@@ -12,13 +14,71 @@ function getFormatter(options: FormatOptions): Intl.DateTimeFormat {
   const key = JSON.stringify(options);
   let formatter = formatterCache.get(key);
   if (!formatter) {
-    const { locale, ...opts } = options;
-    formatter = new Intl.DateTimeFormat(locale, opts);
+    const { locale, skeleton, ...opts } = options;
+    formatter = new Intl.DateTimeFormat(locale, { ...(skeleton ? parseSkeleton(skeleton).options : {}), ...opts });
     formatterCache.set(key, formatter);
   }
   return formatter;
 }
 
+const TEXT_WIDTHS = ['short', 'short', 'short', 'long', 'narrow'] as const;
+const HOUR_CYCLES: Record<string, FormatOptions['hourCycle']> = { h: 'h12', H: 'h23', K: 'h11', k: 'h24' };
+
+/**
+ * Convert a CLDR skeleton (e.g., 'yMMMd', 'jm') to Intl options.
+ * Quarter fields (Q, q) have no Intl equivalent and are returned separately.
+ */
+function parseSkeleton(skeleton: string): { options: FormatOptions; quarter: number } {
+  const options: FormatOptions = {};
+  let quarter = 0;
+  const digits = (n: number) => (n === 2 ? '2-digit' : 'numeric');
+
+  for (const [run, char] of skeleton.matchAll(/(.)\1*/g)) {
+    const n = run.length;
+    switch (char) {
+      case 'G': options.era = n === 4 ? 'long' : n === 5 ? 'narrow' : 'short'; break;
+      case 'y': options.year = digits(n); break;
+      case 'Q': case 'q': quarter = n; break;
+      case 'M': case 'L': options.month = n <= 2 ? digits(n) : TEXT_WIDTHS[Math.min(n, 5) - 1]; break;
+      case 'd': options.day = digits(n); break;
+      case 'E': case 'c': options.weekday = TEXT_WIDTHS[Math.max(Math.min(n, 5), 3) - 1]; break;
+      case 'j': options.hour = digits(n); break;
+      case 'h': case 'H': case 'K': case 'k': options.hour = digits(n); options.hourCycle = HOUR_CYCLES[char]; break;
+      case 'm': options.minute = digits(n); break;
+      case 's': options.second = digits(n); break;
+      case 'S': options.fractionalSecondDigits = Math.min(n, 3) as 1 | 2 | 3; break;
+      case 'a': break;
+      case 'B': options.dayPeriod = n === 4 ? 'long' : n === 5 ? 'narrow' : 'short'; break;
+      case 'z': options.timeZoneName = n === 4 ? 'long' : 'short'; break;
+      case 'O': options.timeZoneName = n === 4 ? 'longOffset' : 'shortOffset'; break;
+      case 'v': options.timeZoneName = n === 4 ? 'longGeneric' : 'shortGeneric'; break;
+      default: throw new RangeError(`Unsupported skeleton field: ${char}`);
+    }
+  }
+
+  return { options, quarter };
+}
+
+// Numbering systems whose digits parse like ASCII digits (e.g., "٢٠٢٤", "२०२४", "２０２４")
+const NUMBERING_SYSTEMS = ['arab', 'arabext', 'beng', 'deva', 'fullwide', 'gujr', 'guru', 'khmr',
+                           'knda', 'laoo', 'mlym', 'mymr', 'orya', 'tamldec', 'telu', 'thai', 'tibt'];
+let digitMap: Map<string, string> | undefined;
+
+/**
+ * Map locale digits to ASCII and special spaces to plain spaces, keeping the string length
+ */
+function normalizeForParse(str: string): string {
+  if (!digitMap) {
+    digitMap = new Map();
+    for (const nu of NUMBERING_SYSTEMS) {
+      const formatter = new Intl.NumberFormat(`en-u-nu-${nu}`);
+      for (let i = 0; i < 10; i++) digitMap.set(formatter.format(i), String(i));
+    }
+  }
+  const digits = digitMap;
+  return str.replace(/[\u00a0\u202f]/g, ' ').replace(/\p{Nd}/gu, c => digits.get(c) ?? c);
+}
+
 // Cache for locale-aware month/day names (for bi-directional parsing)
 const monthNamesCache = new Map<string, { long: Map<string, number>; short: Map<string, number> }>();
 const dayNamesCache = new Map<string, { long: Map<string, number>; short: Map<string, number> }>();
@@ -30,8 +90,8 @@ function getMonthNamesMap(locale: string): { long: Map<string, number>; short: M
     const shortMap = new Map<string, number>();
     for (let m = 0; m < 12; m++) {
       const date = new Date(2024, m, 15);
-      const longName = new Intl.DateTimeFormat(locale, { month: 'long' }).format(date).toLowerCase();
-      const shortName = new Intl.DateTimeFormat(locale, { month: 'short' }).format(date).toLowerCase();
+      const longName = normalizeForParse(new Intl.DateTimeFormat(locale, { month: 'long' }).format(date).toLowerCase());
+      const shortName = normalizeForParse(new Intl.DateTimeFormat(locale, { month: 'short' }).format(date).toLowerCase());
       longMap.set(longName, m);
       shortMap.set(shortName, m);
     }
@@ -49,8 +109,8 @@ function getDayNamesMap(locale: string): { long: Map<string, number>; short: Map
     // Jan 7, 2024 is a Sunday (day 0)
     for (let d = 0; d < 7; d++) {
       const date = new Date(2024, 0, 7 + d);
-      const longName = new Intl.DateTimeFormat(locale, { weekday: 'long' }).format(date).toLowerCase();
-      const shortName = new Intl.DateTimeFormat(locale, { weekday: 'short' }).format(date).toLowerCase();
+      const longName = normalizeForParse(new Intl.DateTimeFormat(locale, { weekday: 'long' }).format(date).toLowerCase());
+      const shortName = normalizeForParse(new Intl.DateTimeFormat(locale, { weekday: 'short' }).format(date).toLowerCase());
       longMap.set(longName, d);
       shortMap.set(shortName, d);
     }
@@ -65,7 +125,7 @@ function buildMonthRegex(locale: string, style: 'long' | 'short'): string {
   for (let m = 0; m < 12; m++) {
     const date = new Date(2024, m, 15);
     const name = new Intl.DateTimeFormat(locale, { month: style }).format(date);
-    names.push(name);
+    names.push(normalizeForParse(name));
   }
   return '(' + names
     .sort((a, b) => b.length - a.length)
@@ -78,7 +138,7 @@ function buildDayRegex(locale: string, style: 'long' | 'short'): string {
   for (let d = 0; d < 7; d++) {
     const date = new Date(2024, 0, 7 + d);
     const name = new Intl.DateTimeFormat(locale, { weekday: style }).format(date);
-    names.push(name);
+    names.push(normalizeForParse(name));
   }
   return '(' + names
     .sort((a, b) => b.length - a.length)
@@ -86,13 +146,232 @@ function buildDayRegex(locale: string, style: 'long' | 'short'): string {
     .join('|') + ')';
 }
 
+export interface TemplatePart {
+  type: 'token' | 'literal';
+  value: string;
+}
+
+/**
+ * Split a format template into tokens and literal text.
+ * Text inside [brackets] is always literal; tokens match longest-first.
+ */
+export function tokenizeTemplate(template: string, tokens: readonly string[]): TemplatePart[] {
+  const sorted = [...tokens].sort((a, b) => b.length - a.length);
+  const parts: TemplatePart[] = [];
+  let literal = '';
+  let i = 0;
+
+  while (i < template.length) {
+    if (template[i] === '[') {
+      const end = template.indexOf(']', i + 1);
+      if (end !== -1) {
+        literal += template.slice(i + 1, end);
+        i = end + 1;
+        continue;
+      }
+    }
+
+    const token = sorted.find(t => template.startsWith(t, i));
+    if (token) {
+      if (literal) parts.push({ type: 'literal', value: literal });
+      literal = '';
+      parts.push({ type: 'token', value: token });
+      i += token.length;
+    } else {
+      literal += template[i];
+      i++;
+    }
+  }
+
+  if (literal) parts.push({ type: 'literal', value: literal });
+  return parts;
+}
+
+/**
+ * Render a tokenized template with token values
+ */
+export function renderTemplate(template: string, tokens: Record<string, string>): string {
+  return tokenizeTemplate(template, Object.keys(tokens))
+    .map(part => part.type === 'token' ? tokens[part.value] : part.value)
+    .join('');
+}
+
+// Ordinal suffixes by language and Intl.PluralRules ordinal category
+const ORDINAL_SUFFIXES: Record<string, Partial<Record<Intl.LDMLPluralRule, string>>> = {
+  en: { one: 'st', two: 'nd', few: 'rd', other: 'th' },
+  fr: { one: 'er', other: 'e' },
+  es: { other: 'º' },
+  it: { other: 'º' },
+  pt: { other: 'º' },
+  de: { other: '.' },
+  nl: { other: 'e' },
+  sv: { one: ':a', other: ':e' },
+};
+
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+
+/**
+ * Format a number as a locale ordinal (e.g., "1st", "1er", "1.")
+ */
+function ordinal(n: number, locale: string): string {
+  const suffixes = ORDINAL_SUFFIXES[new Intl.Locale(locale).language];
+  if (!suffixes) return String(n);
+  let rules = pluralRulesCache.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale, { type: 'ordinal' });
+    pluralRulesCache.set(locale, rules);
+  }
+  return n + (suffixes[rules.select(n)] ?? suffixes.other ?? '');
+}
+
+function buildOrdinalRegex(locale: string): string {
+  const suffixes = [...new Set(Object.values(ORDINAL_SUFFIXES[new Intl.Locale(locale).language] ?? {}))];
+  if (suffixes.length === 0) return '(\\d{1,2})';
+  return '(\\d{1,2})(?:' + suffixes.map(s => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|') + ')';
+}
+
+// Era names map to 1 (AD/CE) or 0 (BC/BCE)
+function getEraNamesMap(locale: string): Map<string, number> {
+  const names = new Map<string, number>();
+  const formatter = new Intl.DateTimeFormat(locale, { era: 'short', year: 'numeric', timeZone: 'UTC' });
+  const bc = new Date(0);
+  bc.setUTCFullYear(-100);
+  for (const [date, value] of [[new Date(Date.UTC(2024, 0, 1)), 1], [bc, 0]] as const) {
+    const era = formatter.formatToParts(date).find(p => p.type === 'era')?.value;
+    if (era) names.set(normalizeForParse(era.toLowerCase()), value);
+  }
+  return names;
+}
+
+// Day periods map to 0 (AM) or 1 (PM); English "am"/"pm" are always accepted
+const dayPeriodsCache = new Map<string, Map<string, number>>();
+
+function getDayPeriodsMap(locale: string): Map<string, number> {
+  let names = dayPeriodsCache.get(locale);
+  if (!names) {
+    names = new Map([['am', 0], ['pm', 1]]);
+    const formatter = new Intl.DateTimeFormat(locale, { hour: 'numeric', hourCycle: 'h12', timeZone: 'UTC' });
+    for (const [hour, value] of [[9, 0], [15, 1]]) {
+      const period = formatter.formatToParts(Date.UTC(2024, 0, 1, hour)).find(p => p.type === 'dayPeriod')?.value;
+      if (period) names.set(normalizeForParse(period.toLowerCase()), value);
+    }
+    dayPeriodsCache.set(locale, names);
+  }
+  return names;
+}
+
+function buildDayPeriodRegex(locale: string): string {
+  return '(' + [...getDayPeriodsMap(locale).keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(n => n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|') + ')';
+}
+
+/**
+ * Map a two-digit year into the 100 years ending at the pivot (e.g., pivot 2049: 49 → 2049, 50 → 1950)
+ */
+function twoDigitYear(yy: number, pivot: number): number {
+  return pivot - (((pivot - yy) % 100) + 100) % 100;
+}
+
+function buildEraRegex(locale: string): string {
+  return '(' + [...getEraNamesMap(locale).keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(n => n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|') + ')';
+}
+
+// Parse "+05:30", "+0530" or "Z" to minutes east of UTC
+function parseOffsetToken(v: string): number {
+  if (v.toUpperCase() === 'Z') return 0;
+  const digits = v.replace(':', '');
+  const minutes = parseInt(digits.slice(1, 3), 10) * 60 + parseInt(digits.slice(3, 5), 10);
+  return v[0] === '-' ? -minutes : minutes;
+}
+
 /**
  * Format date using Intl.DateTimeFormat
  */
 export function format(input: DateInput, options: FormatOptions = {}): string {
+  if (options.skeleton && /[Qq]/.test(options.skeleton)) {
+    return formatToParts(input, options).map(p => p.value).join('');
+  }
   return getFormatter(options).format(toDate(input));
 }
 
+/**
+ * Format a date range with locale-correct collapsing (e.g., "Jan 3 – 7, 2025").
+ * Falls back to joining both formatted dates when Intl formatRange is unavailable.
+ */
+export function formatRange(start: DateInput, end: DateInput, options: FormatOptions = {}): string {
+  const s = toDate(start);
+  const e = toDate(end);
+  const formatter = getFormatter(options);
+
+  if (typeof formatter.formatRange === 'function') {
+    return formatter.formatRange(s, e);
+  }
+
+  const from = formatter.format(s);
+  const to = formatter.format(e);
+  return from === to ? from : `${from} – ${to}`;
+}
+
+// Abbreviated (QQQ) and wide (QQQQ) quarter names, and where they go relative to the rest, by language.
+// Other languages get "Q1" before the rest.
+interface QuarterPattern {
+  abbreviated: string;  // {0} is the number
+  wide: string[];       // By quarter
+  separator: string;
+  after?: boolean;
+}
+
+const DEFAULT_QUARTER_PATTERN: QuarterPattern = { abbreviated: 'Q{0}', wide: ['Q1', 'Q2', 'Q3', 'Q4'], separator: ' ' };
+
+const QUARTER_PATTERNS: Record<string, QuarterPattern> = {
+  en: { abbreviated: 'Q{0}', wide: ['1st quarter', '2nd quarter', '3rd quarter', '4th quarter'], separator: ' ' },
+  de: { abbreviated: 'Q{0}', wide: ['1. Quartal', '2. Quartal', '3. Quartal', '4. Quartal'], separator: ' ' },
+  fr: { abbreviated: 'T{0}', wide: ['1er trimestre', '2e trimestre', '3e trimestre', '4e trimestre'], separator: ' ' },
+  es: { abbreviated: 'T{0}', wide: ['1.er trimestre', '2.º trimestre', '3.er trimestre', '4.º trimestre'], separator: ' ' },
+  it: { abbreviated: 'T{0}', wide: ['1º trimestre', '2º trimestre', '3º trimestre', '4º trimestre'], separator: ' ' },
+  nl: { abbreviated: 'K{0}', wide: ['1e kwartaal', '2e kwartaal', '3e kwartaal', '4e kwartaal'], separator: ' ' },
+  ja: { abbreviated: 'Q{0}', wide: ['第1四半期', '第2四半期', '第3四半期', '第4四半期'], separator: '', after: true },
+  zh: { abbreviated: '第{0}季度', wide: ['第一季度', '第二季度', '第三季度', '第四季度'], separator: '', after: true },
+  ko: { abbreviated: '{0}분기', wide: ['제 1/4분기', '제 2/4분기', '제 3/4분기', '제 4/4분기'], separator: ' ', after: true },
+};
+
+/**
+ * Format date to typed parts (e.g., for styling the day separately from the month)
+ */
+export function formatToParts(input: DateInput, options: FormatOptions = {}): FormatPart[] {
+  const d = toDate(input);
+  const quarterWidth = options.skeleton ? parseSkeleton(options.skeleton).quarter : 0;
+  if (!quarterWidth) {
+    return getFormatter(options).formatToParts(d);
+  }
+
+  // Intl has no quarter field: format the rest and place the quarter per the locale's pattern
+  const skeleton = options.skeleton!.replace(/[Qq]+/g, '');
+  const formatter = getFormatter({ ...options, skeleton: skeleton || 'y' });
+  const language = new Intl.Locale(formatter.resolvedOptions().locale).language;
+  const pattern = QUARTER_PATTERNS[language] ?? DEFAULT_QUARTER_PATTERN;
+
+  const parts: FormatPart[] = skeleton ? formatter.formatToParts(d) : [];
+  const month = toTimezoneMonth(d, options.timeZone);
+  const q = Math.floor(month / 3) + 1;
+  const names = ['', String(q), `0${q}`, pattern.abbreviated.replace('{0}', String(q)), pattern.wide[q - 1]];
+  const quarter: FormatPart = { type: 'quarter', value: names[quarterWidth] ?? String(q) };
+  if (!parts.length) return [quarter];
+  const separator: FormatPart = { type: 'literal', value: pattern.separator };
+  return pattern.after ? [...parts, separator, quarter] : [quarter, separator, ...parts];
+}
+
+// Month (0-11) of a date in a timezone, or local time
+function toTimezoneMonth(d: Date, timeZone?: string): number {
+  if (!timeZone) return d.getMonth();
+  return parseInt(getFormatter({ locale: 'en-US', month: 'numeric', timeZone }).format(d), 10) - 1;
+}
+
 /**
  * Format date to ISO string (YYYY-MM-DD)
  */
@@ -123,75 +402,137 @@ export function toISOString(input: DateInput): string {
 }
 
 /**
- * Format date using format string (like dayjs/moment)
+ * ISO 8601 week number and week-numbering year of a calendar date
  */
-export function formatStr(input: DateInput, template: string, locale = 'en-US'): string {
-  const d = toDate(input);
+function isoWeekOf(year: number, month: number, date: number): { week: number; weekYear: number } {
+  const d = new Date(0);
+  d.setUTCFullYear(year, month, date);
+  // The Thursday of the same ISO week determines the week-year
+  d.setUTCDate(d.getUTCDate() + 3 - (d.getUTCDay() + 6) % 7);
+  const weekYear = d.getUTCFullYear();
+  const jan1 = new Date(0);
+  jan1.setUTCFullYear(weekYear, 0, 1);
+  const week = Math.floor((d.getTime() - jan1.getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1;
+  return { week, weekYear };
+}
 
-  const year = d.getFullYear();
-  const month = d.getMonth();
-  const date = d.getDate();
-  const day = d.getDay();
-  const hours = d.getHours();
-  const minutes = d.getMinutes();
-  const seconds = d.getSeconds();
-  const ms = d.getMilliseconds();
-
-  const monthLong = new Intl.DateTimeFormat(locale, { month: 'long' }).format(d);
-  const monthShort = new Intl.DateTimeFormat(locale, { month: 'short' }).format(d);
-  const dayLong = new Intl.DateTimeFormat(locale, { weekday: 'long' }).format(d);
-  const dayShort = new Intl.DateTimeFormat(locale, { weekday: 'short' }).format(d);
+function offsetToken(offset: number, separator: string): string {
+  const abs = Math.abs(offset);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${offset < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}${separator}${pad(abs % 60)}`;
+}
 
-  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+export interface TemplateFields {
+  year: number;
+  month: number;
+  date: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  ms: number;
+  offset: number;  // Minutes east of UTC
+}
 
-  const tokens: Record<string, string> = {
-    'YYYY': String(year),
-    'YY': String(year).slice(-2),
-    'MMMM': monthLong,
-    'MMM': monthShort,
-    'MM': pad(month + 1),
-    'M': String(month + 1),
-    'DD': pad(date),
-    'D': String(date),
-    'dddd': dayLong,
-    'ddd': dayShort,
-    'HH': pad(hours),
-    'H': String(hours),
-    'hh': pad(hours % 12 || 12),
-    'h': String(hours % 12 || 12),
-    'mm': pad(minutes),
-    'm': String(minutes),
-    'ss': pad(seconds),
-    's': String(seconds),
-    'SSS': pad(ms, 3),
-    'A': hours < 12 ? 'AM' : 'PM',
-    'a': hours < 12 ? 'am' : 'pm',
+/**
+ * Build format token values for wall-clock fields (shared by formatStr and formatStrInTz)
+ */
+export function templateTokens(d: Date, f: TemplateFields, locale: string, timeZone?: string): Record<string, string> {
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  const name = (options: FormatOptions) => getFormatter({ locale, timeZone, ...options }).format(d);
+  const era = getFormatter({ locale, timeZone, year: 'numeric', era: 'short' })
+    .formatToParts(d).find(p => p.type === 'era')?.value ?? '';
+
+  const jan1 = new Date(0);
+  jan1.setUTCFullYear(f.year, 0, 1);
+  const today = new Date(0);
+  today.setUTCFullYear(f.year, f.month, f.date);
+  const yearDay = Math.round((today.getTime() - jan1.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  const { week, weekYear } = isoWeekOf(f.year, f.month, f.date);
+
+  return {
+    'YYYY': String(f.year),
+    'YY': String(f.year).slice(-2),
+    'GGGG': String(weekYear),
+    'Q': String(Math.floor(f.month / 3) + 1),
+    'MMMM': name({ month: 'long' }),
+    'MMM': name({ month: 'short' }),
+    'MM': pad(f.month + 1),
+    'M': String(f.month + 1),
+    'WW': pad(week),
+    'W': String(week),
+    'DDDD': pad(yearDay, 3),
+    'DDD': String(yearDay),
+    'DD': pad(f.date),
+    'Do': ordinal(f.date, locale),
+    'D': String(f.date),
+    'dddd': name({ weekday: 'long' }),
+    'ddd': name({ weekday: 'short' }),
+    'E': String(f.day || 7),
+    'HH': pad(f.hours),
+    'H': String(f.hours),
+    'hh': pad(f.hours % 12 || 12),
+    'h': String(f.hours % 12 || 12),
+    'mm': pad(f.minutes),
+    'm': String(f.minutes),
+    'ss': pad(f.seconds),
+    's': String(f.seconds),
+    'SSS': pad(f.ms, 3),
+    'SS': pad(Math.floor(f.ms / 10)),
+    'S': String(Math.floor(f.ms / 100)),
+    'A': f.hours < 12 ? 'AM' : 'PM',
+    'a': f.hours < 12 ? 'am' : 'pm',
+    'N': era,
+    'X': String(Math.floor(d.getTime() / 1000)),
+    'x': String(d.getTime()),
+    'ZZ': offsetToken(f.offset, ''),
+    'Z': offsetToken(f.offset, ':'),
   };
-
-  const pattern = Object.keys(tokens)
-    .sort((a, b) => b.length - a.length)
-    .join('|');
-
-  return template.replace(new RegExp(pattern, 'g'), match => tokens[match] || match);
 }
 
 /**
- * Parse date from string with format (bi-directional parsing)
+ * Format date using format string (like dayjs/moment)
  */
-export function parse(dateStr: string, template: string, locale = 'en-US'): Date {
-  type TokenDef = { token: string; regex: string; field: string; transform?: (v: string, locale: string) => number };
+export function formatStr(input: DateInput, template: string, locale = 'en-US'): string {
+  const d = toDate(input);
 
-  const tokenDefs: TokenDef[] = [
+  const tokens = templateTokens(d, {
+    year: d.getFullYear(),
+    month: d.getMonth(),
+    date: d.getDate(),
+    day: d.getDay(),
+    hours: d.getHours(),
+    minutes: d.getMinutes(),
+    seconds: d.getSeconds(),
+    ms: d.getMilliseconds(),
+    offset: -d.getTimezoneOffset(),
+  }, locale);
+
+  return renderTemplate(template, tokens);
+}
+
+type TokenDef = { token: string; regex: string; field: string; transform?: (v: string, options: Required<ParseOptions>) => number };
+
+function parseTokenDefs(locale: string): TokenDef[] {
+  return [
     { token: 'YYYY', regex: '(\\d{4})', field: 'year', transform: (v) => parseInt(v, 10) },
-    { token: 'YY', regex: '(\\d{2})', field: 'year', transform: (v) => 2000 + parseInt(v, 10) },
-    { token: 'MMMM', regex: buildMonthRegex(locale, 'long'), field: 'month', transform: (v, loc) => getMonthNamesMap(loc).long.get(v.toLowerCase()) ?? 0 },
-    { token: 'MMM', regex: buildMonthRegex(locale, 'short'), field: 'month', transform: (v, loc) => getMonthNamesMap(loc).short.get(v.toLowerCase()) ?? 0 },
+    { token: 'YY', regex: '(\\d{2})', field: 'year', transform: (v, opts) => twoDigitYear(parseInt(v, 10), opts.twoDigitYearPivot) },
+    { token: 'GGGG', regex: '(\\d{4})', field: 'isoWeekYear', transform: (v) => parseInt(v, 10) },
+    { token: 'Q', regex: '([1-4])', field: 'quarter', transform: (v) => parseInt(v, 10) },
+    { token: 'MMMM', regex: buildMonthRegex(locale, 'long'), field: 'month', transform: (v, opts) => getMonthNamesMap(opts.locale).long.get(v.toLowerCase()) ?? 0 },
+    { token: 'MMM', regex: buildMonthRegex(locale, 'short'), field: 'month', transform: (v, opts) => getMonthNamesMap(opts.locale).short.get(v.toLowerCase()) ?? 0 },
     { token: 'MM', regex: '(\\d{2})', field: 'month', transform: (v) => parseInt(v, 10) - 1 },
     { token: 'M', regex: '(\\d{1,2})', field: 'month', transform: (v) => parseInt(v, 10) - 1 },
-    { token: 'dddd', regex: buildDayRegex(locale, 'long'), field: 'weekday', transform: (v, loc) => getDayNamesMap(loc).long.get(v.toLowerCase()) ?? 0 },
-    { token: 'ddd', regex: buildDayRegex(locale, 'short'), field: 'weekday', transform: (v, loc) => getDayNamesMap(loc).short.get(v.toLowerCase()) ?? 0 },
+    { token: 'WW', regex: '(\\d{2})', field: 'isoWeek', transform: (v) => parseInt(v, 10) },
+    { token: 'W', regex: '(\\d{1,2})', field: 'isoWeek', transform: (v) => parseInt(v, 10) },
+    { token: 'DDDD', regex: '(\\d{3})', field: 'dayOfYear', transform: (v) => parseInt(v, 10) },
+    { token: 'DDD', regex: '(\\d{1,3})', field: 'dayOfYear', transform: (v) => parseInt(v, 10) },
+    { token: 'Do', regex: buildOrdinalRegex(locale), field: 'day', transform: (v) => parseInt(v, 10) },
+    { token: 'dddd', regex: buildDayRegex(locale, 'long'), field: 'weekday', transform: (v, opts) => getDayNamesMap(opts.locale).long.get(v.toLowerCase()) ?? 0 },
+    { token: 'ddd', regex: buildDayRegex(locale, 'short'), field: 'weekday', transform: (v, opts) => getDayNamesMap(opts.locale).short.get(v.toLowerCase()) ?? 0 },
     { token: 'DD', regex: '(\\d{2})', field: 'day', transform: (v) => parseInt(v, 10) },
     { token: 'D', regex: '(\\d{1,2})', field: 'day', transform: (v) => parseInt(v, 10) },
+    { token: 'E', regex: '([1-7])', field: 'isoWeekday', transform: (v) => parseInt(v, 10) },
     { token: 'HH', regex: '(\\d{2})', field: 'hour', transform: (v) => parseInt(v, 10) },
     { token: 'H', regex: '(\\d{1,2})', field: 'hour', transform: (v) => parseInt(v, 10) },
     { token: 'hh', regex: '(\\d{2})', field: 'hour12', transform: (v) => parseInt(v, 10) },
@@ -201,36 +542,82 @@ export function parse(dateStr: string, template: string, locale = 'en-US'): Date
     { token: 'ss', regex: '(\\d{2})', field: 'second', transform: (v) => parseInt(v, 10) },
     { token: 's', regex: '(\\d{1,2})', field: 'second', transform: (v) => parseInt(v, 10) },
     { token: 'SSS', regex: '(\\d{3})', field: 'ms', transform: (v) => parseInt(v, 10) },
-    { token: 'A', regex: '(AM|PM)', field: 'meridiem', transform: (v) => v === 'PM' ? 1 : 0 },
-    { token: 'a', regex: '(am|pm)', field: 'meridiem', transform: (v) => v === 'pm' ? 1 : 0 },
+    { token: 'SS', regex: '(\\d{2})', field: 'ms', transform: (v) => parseInt(v, 10) * 10 },
+    { token: 'S', regex: '(\\d)', field: 'ms', transform: (v) => parseInt(v, 10) * 100 },
+    { token: 'A', regex: buildDayPeriodRegex(locale), field: 'meridiem', transform: (v, opts) => getDayPeriodsMap(opts.locale).get(v.toLowerCase()) ?? 0 },
+    { token: 'a', regex: buildDayPeriodRegex(locale), field: 'meridiem', transform: (v, opts) => getDayPeriodsMap(opts.locale).get(v.toLowerCase()) ?? 0 },
+    { token: 'N', regex: buildEraRegex(locale), field: 'era', transform: (v, opts) => getEraNamesMap(opts.locale).get(v.toLowerCase()) ?? 1 },
+    { token: 'X', regex: '(-?\\d+(?:\\.\\d+)?)', field: 'timestamp', transform: (v) => Math.round(parseFloat(v) * 1000) },
+    { token: 'x', regex: '(-?\\d+)', field: 'timestamp', transform: (v) => parseInt(v, 10) },
+    { token: 'ZZ', regex: '([+-]\\d{4}|Z)', field: 'offset', transform: parseOffsetToken },
+    { token: 'Z', regex: '([+-]\\d{2}:\\d{2}|Z)', field: 'offset', transform: parseOffsetToken },
   ];
+}
 
-  const sortedDefs = [...tokenDefs].sort((a, b) => b.token.length - a.token.length);
-  const foundTokens: Array<{ pos: number; def: TokenDef }> = [];
-  let searchTemplate = template;
+// Allowed values per parsed field (month is 0-11)
+const FIELD_RANGES: Record<string, [number, number]> = {
+  month: [0, 11],
+  day: [1, 31],
+  hour: [0, 23],
+  hour12: [1, 12],
+  minute: [0, 59],
+  second: [0, 59],
+  isoWeek: [1, 53],
+  dayOfYear: [1, 366],
+};
 
-  for (const def of sortedDefs) {
-    let pos = searchTemplate.indexOf(def.token);
-    while (pos !== -1) {
-      foundTokens.push({ pos, def });
-      searchTemplate = searchTemplate.substring(0, pos) + '\x00'.repeat(def.token.length) + searchTemplate.substring(pos + def.token.length);
-      pos = searchTemplate.indexOf(def.token);
-    }
-  }
+type TemplatePiece = { regex: string; token: string; def?: TokenDef };
 
-  foundTokens.sort((a, b) => a.pos - b.pos);
+/**
+ * Walk the input piece by piece to find where it stops matching the template
+ */
+function locateMismatch(input: string, pieces: TemplatePiece[]): ParseError {
+  let position = 0;
+  for (const piece of pieces) {
+    const regex = new RegExp(piece.regex, 'iy');
+    regex.lastIndex = position;
+    const m = regex.exec(input);
+    if (!m) return { code: 'unexpectedInput', position, token: piece.token };
+    position += m[0].length;
+  }
+  return { code: 'trailingInput', position, token: '' };
+}
 
-  let escapedTemplate = template.replace(/[.*+?^${}|[\]\\]/g, '\\$&');
-  for (const { def } of [...foundTokens].sort((a, b) => b.pos - a.pos)) {
-    const escapedToken = def.token.replace(/[.*+?^${}|[\]\\]/g, '\\$&');
-    escapedTemplate = escapedTemplate.replace(escapedToken, def.regex);
+// Compiled templates per locale
+const compiledCache = new Map<string, { pieces: TemplatePiece[]; regex: RegExp }>();
+
+function compileTemplate(template: string, locale: string): { pieces: TemplatePiece[]; regex: RegExp } {
+  const key = JSON.stringify([locale, template]);
+  let compiled = compiledCache.get(key);
+  if (!compiled) {
+    const defsByToken = new Map(parseTokenDefs(locale).map(def => [def.token, def]));
+    const pieces: TemplatePiece[] = tokenizeTemplate(template, [...defsByToken.keys()]).map(part => {
+      if (part.type === 'token') {
+        const def = defsByToken.get(part.value)!;
+        return { regex: def.regex, token: part.value, def };
+      }
+      return { regex: normalizeForParse(part.value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), token: part.value };
+    });
+    compiled = { pieces, regex: new RegExp('^' + pieces.map(p => p.regex).join('') + '$', 'id') };
+    compiledCache.set(key, compiled);
   }
+  return compiled;
+}
 
-  const regex = new RegExp('^' + escapedTemplate + '$', 'i');
-  const match = dateStr.match(regex);
+/**
+ * Parse date from string with format, reporting why parsing failed.
+ * Rejects out-of-range fields (month 13, minute 60), dates that would roll over (Feb 30),
+ * weekdays that don't match the date and contradictory fields.
+ * Accepts a locale or ParseOptions as the third argument.
+ */
+export function tryParse(dateStr: string, template: string, options: string | ParseOptions = 'en-US'): ParseResult {
+  const { locale = 'en-US', twoDigitYearPivot = 2099 } = typeof options === 'string' ? { locale: options } : options;
+  const { pieces, regex } = compileTemplate(template, locale);
+  const input = normalizeForParse(dateStr);
+  const match = regex.exec(input);
 
   if (!match) {
-    return new Date(NaN);
+    return { ok: false, error: locateMismatch(input, pieces) };
   }
 
   const parts: Record<string, number> = {
@@ -244,36 +631,119 @@ export function parse(dateStr: string, template: string, locale = 'en-US'): Date
     ms: 0,
     meridiem: -1,
     weekday: -1,
+    era: 1,
   };
+  // Where each field was read, for error reporting
+  const located = new Map<string, { position: number; token: string }>();
+  const fail = (code: ParseErrorCode, field: string): ParseResult =>
+    ({ ok: false, error: { code, ...(located.get(field) ?? { position: 0, token: '' }) } });
+
+  let group = 0;
+  for (const piece of pieces) {
+    if (!piece.def) continue;
+    group++;
+    const { field, transform } = piece.def;
+    const rawValue = match[group];
+    const value = transform ? transform(rawValue, { locale, twoDigitYearPivot }) : parseInt(rawValue, 10);
+    const conflicting = located.has(field) && parts[field] !== value;
+    located.set(field, { position: match.indices?.[group]?.[0] ?? 0, token: piece.token });
+
+    const range = FIELD_RANGES[field];
+    if (range && (value < range[0] || value > range[1])) return fail('outOfRange', field);
+    if (conflicting) return fail('fieldConflict', field);
+    parts[field] = value;
+  }
+
+  if (located.has('timestamp')) {
+    return { ok: true, date: new Date(parts.timestamp) };
+  }
 
-  for (let i = 0; i < foundTokens.length; i++) {
-    const { def } = foundTokens[i];
-    const rawValue = match[i + 1];
-    const value = def.transform ? def.transform(rawValue, locale) : parseInt(rawValue, 10);
-    parts[def.field] = value;
+  // Era 0 is BC: 1 BC is year 0, 2 BC is year -1
+  if (parts.era === 0) {
+    parts.year = 1 - parts.year;
+  }
+
+  const utcDate = (year: number, month: number, day: number) => {
+    const d = new Date(0);
+    d.setUTCFullYear(year, month, day);
+    return d;
+  };
+
+  if (located.has('isoWeek')) {
+    const weekYear = located.has('isoWeekYear') ? parts.isoWeekYear : parts.year;
+    const weekday = located.has('isoWeekday') ? parts.isoWeekday : 1;
+    // Week 1 is the week containing January 4
+    const start = 4 - (utcDate(weekYear, 0, 4).getUTCDay() + 6) % 7;
+    const d = utcDate(weekYear, 0, start + (parts.isoWeek - 1) * 7 + weekday - 1);
+    // Week 53 only exists in years whose last Thursday falls in it
+    if (parts.isoWeek === 53 && utcDate(weekYear, 0, start + 52 * 7 + 3).getUTCFullYear() !== weekYear) {
+      return fail('invalidDate', 'isoWeek');
+    }
+    parts.year = d.getUTCFullYear();
+    parts.month = d.getUTCMonth();
+    parts.day = d.getUTCDate();
+  } else if (located.has('dayOfYear')) {
+    const d = utcDate(parts.year, 0, parts.dayOfYear);
+    if (d.getUTCFullYear() !== parts.year) return fail('invalidDate', 'dayOfYear');
+    parts.month = d.getUTCMonth();
+    parts.day = d.getUTCDate();
+  } else {
+    if (located.has('quarter')) {
+      if (!located.has('month')) {
+        parts.month = (parts.quarter - 1) * 3;
+      } else if (Math.floor(parts.month / 3) + 1 !== parts.quarter) {
+        return fail('fieldConflict', 'quarter');
+      }
+    }
+    if (utcDate(parts.year, parts.month, parts.day).getUTCMonth() !== parts.month) {
+      return fail('invalidDate', located.has('day') ? 'day' : 'month');
+    }
+  }
+
+  const weekday = utcDate(parts.year, parts.month, parts.day).getUTCDay();
+  if (located.has('weekday') && parts.weekday !== weekday) {
+    return fail('weekdayMismatch', 'weekday');
+  }
+  if (located.has('isoWeekday') && !located.has('isoWeek') && parts.isoWeekday % 7 !== weekday) {
+    return fail('weekdayMismatch', 'isoWeekday');
   }
 
   let hour = parts.hour;
-  if (parts.hour12 > 0 && parts.meridiem >= 0) {
+  if (located.has('hour12')) {
     hour = parts.hour12;
     if (parts.meridiem === 1 && hour !== 12) {
       hour += 12;
     } else if (parts.meridiem === 0 && hour === 12) {
       hour = 0;
     }
-  } else if (parts.hour12 > 0) {
-    hour = parts.hour12;
+  } else if (located.has('hour') && located.has('meridiem') && (hour >= 12) !== (parts.meridiem === 1)) {
+    return fail('fieldConflict', 'meridiem');
+  }
+
+  if (located.has('offset')) {
+    const d = utcDate(parts.year, parts.month, parts.day);
+    d.setUTCHours(hour, parts.minute, parts.second, parts.ms);
+    return { ok: true, date: new Date(d.getTime() - parts.offset * 60 * 1000) };
   }
 
-  return new Date(parts.year, parts.month, parts.day, hour, parts.minute, parts.second, parts.ms);
+  return { ok: true, date: new Date(parts.year, parts.month, parts.day, hour, parts.minute, parts.second, parts.ms) };
+}
+
+/**
+ * Parse date from string with format (bi-directional parsing).
+ * Returns Invalid Date on failure; use tryParse to find out why.
+ */
+export function parse(dateStr: string, template: string, options: string | ParseOptions = 'en-US'): Date {
+  const result = tryParse(dateStr, template, options);
+  return result.ok ? result.date : new Date(NaN);
 }
 
 // Preset formats
-export function formatDate(input: DateInput, locale = 'en-US'): string {
-  return format(input, { locale, year: 'numeric', month: 'short', day: 'numeric' });
+export function formatDate(input: DateInput, locale = 'en-US', timeZone?: string): string {
+  return format(input, { locale, year: 'numeric', month: 'short', day: 'numeric', timeZone });
 }
 
-export function formatDateTime(input: DateInput, locale = 'en-US'): string {
+export function formatDateTime(input: DateInput, locale = 'en-US', timeZone?: string): string {
   return format(input, {
     locale,
     year: 'numeric',
@@ -281,9 +751,10 @@ export function formatDateTime(input: DateInput, locale = 'en-US'): string {
     day: 'numeric',
     hour: '2-digit',
     minute: '2-digit',
+    timeZone,
   });
 }
 
-export function formatTime(input: DateInput, locale = 'en-US'): string {
-  return format(input, { locale, hour: '2-digit', minute: '2-digit' });
+export function formatTime(input: DateInput, locale = 'en-US', timeZone?: string): string {
+  return format(input, { locale, hour: '2-digit', minute: '2-digit', timeZone });
 }
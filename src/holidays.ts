@@ -0,0 +1,236 @@
+/**
+ * Rule-based holiday calendars
+ */
+
+import type { DateInput, Holiday, HolidayCalendar, HolidayRule } from './types.js';
+import { calendarDate } from './core.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar dates as UTC midnights, so day arithmetic ignores DST
+function utcDay(year: number, month: number, day: number): Date {
+  const d = new Date(0);
+  d.setUTCFullYear(year, month, day);
+  return d;
+}
+
+function localDate(d: Date): Date {
+  const result = new Date(2000, 0, 1);
+  result.setFullYear(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+  return result;
+}
+
+function dayKey(year: number, month: number, day: number): string {
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm)
+ */
+export function easter(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return localDate(utcDay(year, month - 1, day));
+}
+
+// Created on first use, so only calendars with lunar rules pay for it
+let lunarFormatter: Intl.DateTimeFormat | undefined;
+
+/**
+ * Month and day of a date in the Chinese calendar (leap months come back as e.g. "4bis")
+ */
+function lunarMonthDay(d: Date): [string, string] {
+  lunarFormatter ??= new Intl.DateTimeFormat('en-u-ca-chinese', { timeZone: 'UTC', month: 'numeric', day: 'numeric' });
+  const parts = lunarFormatter.formatToParts(d);
+  return [parts.find(p => p.type === 'month')!.value, parts.find(p => p.type === 'day')!.value];
+}
+
+/**
+ * Date (UTC midnight) of a Chinese calendar month and day, in the lunar year starting in the given year,
+ * or null if that month has no such day
+ */
+function lunarDate(year: number, month: number, day: number): Date | null {
+  // Lunar New Year falls between January 21 and February 20; months are 29 or 30 days long,
+  // so the date is at most a leap month plus a day per month past the earliest candidate
+  let t = utcDay(year, 0, 21).getTime();
+  while (lunarMonthDay(new Date(t)).join('/') !== '1/1') t += DAY_MS;
+  const end = t + ((month - 1) * 30 + day + 30) * DAY_MS;
+  for (t += ((month - 1) * 29 + day - 1) * DAY_MS; t < end; t += DAY_MS) {
+    if (lunarMonthDay(new Date(t)).join('/') === `${month}/${day}`) return new Date(t);
+  }
+  return null;
+}
+
+/**
+ * Actual date of a rule in a year (UTC midnight), or null if it doesn't occur that year
+ */
+function ruleDate(rule: HolidayRule, year: number): Date | null {
+  if ((rule.fromYear !== undefined && year < rule.fromYear) || (rule.toYear !== undefined && year > rule.toYear) ||
+    rule.exceptYears?.includes(year)) {
+    return null;
+  }
+
+  switch (rule.type) {
+    case 'fixed':
+      return utcDay(year, rule.month, rule.day);
+    case 'nthWeekday': {
+      const first = utcDay(year, rule.month, 1);
+      const day = 1 + ((rule.weekday - first.getUTCDay() + 7) % 7) + (rule.n - 1) * 7;
+      const result = utcDay(year, rule.month, day);
+      return result.getUTCMonth() === rule.month ? result : null;
+    }
+    case 'lastWeekday': {
+      const last = utcDay(year, rule.month + 1, 0);
+      return utcDay(year, rule.month, last.getUTCDate() - ((last.getUTCDay() - rule.weekday + 7) % 7));
+    }
+    case 'easter': {
+      const sunday = easter(year);
+      return utcDay(year, sunday.getMonth(), sunday.getDate() + rule.offset);
+    }
+    case 'lunar': {
+      const d = lunarDate(year, rule.month, rule.day);
+      return d && new Date(d.getTime() + (rule.offset ?? 0) * DAY_MS);
+    }
+    case 'date':
+    case 'custom': {
+      const input = rule.type === 'date' ? rule.date : rule.resolve(year);
+      if (input === null) return null;
+      const d = calendarDate(input);
+      return d.getFullYear() === year ? utcDay(year, d.getMonth(), d.getDate()) : null;
+    }
+  }
+}
+
+/**
+ * Build a calendar from its weekend days and a per-year holiday list, caching both per year
+ */
+function calendarFrom(weekendDays: number[], computeYear: (year: number) => Holiday[]): HolidayCalendar {
+  const cache = new Map<number, { holidays: Holiday[]; byDay: Map<string, Holiday> }>();
+
+  function yearOf(year: number) {
+    let entry = cache.get(year);
+    if (!entry) {
+      const holidays = computeYear(year);
+      const byDay = new Map<string, Holiday>();
+      for (const h of holidays) {
+        const key = dayKey(year, h.date.getMonth(), h.date.getDate());
+        if (!byDay.has(key)) byDay.set(key, h);
+      }
+      entry = { holidays, byDay };
+      cache.set(year, entry);
+    }
+    return entry;
+  }
+
+  function holidayOn(input: DateInput): Holiday | undefined {
+    const d = calendarDate(input);
+    return yearOf(d.getFullYear()).byDay.get(dayKey(d.getFullYear(), d.getMonth(), d.getDate()));
+  }
+
+  return {
+    weekendDays,
+    holidaysInYear: (year: number) => [...yearOf(year).holidays],
+    holidayOn,
+    isHoliday: (input: DateInput) => holidayOn(input) !== undefined,
+  };
+}
+
+/**
+ * Create a holiday calendar from rules. Holidays that fall on a weekend move to their observed
+ * date per rule: 'nearestWeekday' (closest working day: Saturday → Friday, Sunday → Monday),
+ * 'nextWeekday' (next free weekday) or 'nextWeekdayIfSunday'. A calendar can be passed anywhere
+ * BusinessDayOptions is accepted.
+ */
+export function holidayCalendar(rules: HolidayRule[], options: { weekendDays?: number[] } = {}): HolidayCalendar {
+  const weekendDays = options.weekendDays ?? [0, 6];
+
+  // Holidays observed in a year, including ones shifted in from adjacent years
+  return calendarFrom(weekendDays, year => {
+    const actual: Array<{ rule: HolidayRule; date: Date }> = [];
+    for (const y of [year - 1, year, year + 1]) {
+      for (const rule of rules) {
+        const date = ruleDate(rule, y);
+        if (date) actual.push({ rule, date });
+      }
+    }
+    actual.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const needsShift = ({ rule, date }: { rule: HolidayRule; date: Date }) =>
+      rule.observed === 'nextWeekdayIfSunday' ? date.getUTCDay() === 0 : !!rule.observed && weekendDays.includes(date.getUTCDay());
+
+    // Holidays on their own date block later substitutes from landing there
+    const taken = new Set(actual.filter(h => !needsShift(h)).map(h => h.date.getTime()));
+    const observed = actual.map(h => {
+      if (!needsShift(h)) return { ...h, observedDate: h.date };
+      let t = h.date.getTime();
+      if (h.rule.observed === 'nearestWeekday') {
+        // Closest working day either side, the later one on a tie
+        const working = (day: number) => !weekendDays.includes(new Date(day).getUTCDay());
+        for (let k = 1; k < 7; k++) {
+          if (working(t + k * DAY_MS) || working(t - k * DAY_MS)) {
+            t += (working(t + k * DAY_MS) ? k : -k) * DAY_MS;
+            break;
+          }
+        }
+      } else {
+        do t += DAY_MS; while (taken.has(t) || weekendDays.includes(new Date(t).getUTCDay()));
+      }
+      taken.add(t);
+      return { ...h, observedDate: new Date(t) };
+    });
+
+    return observed
+      .filter(h => h.observedDate.getUTCFullYear() === year)
+      .sort((a, b) => a.observedDate.getTime() - b.observedDate.getTime())
+      .map(h => ({
+        name: h.rule.name,
+        date: localDate(h.observedDate),
+        actualDate: localDate(h.date),
+        observed: h.observedDate.getTime() !== h.date.getTime(),
+      }));
+  });
+}
+
+/**
+ * Combine calendars so a day is a business day only if it is one in every calendar
+ * (e.g., settlement across two markets). Weekend days and holidays are merged.
+ */
+export function unionCalendars(...calendars: HolidayCalendar[]): HolidayCalendar {
+  const weekendDays = [...new Set(calendars.flatMap(c => c.weekendDays))].sort((a, b) => a - b);
+  return calendarFrom(weekendDays, year => mergeHolidays(calendars.flatMap(c => c.holidaysInYear(year))));
+}
+
+/**
+ * Combine calendars so a day is a business day if it is one in any calendar.
+ * Only holidays on which every calendar is closed are kept.
+ */
+export function intersectCalendars(...calendars: HolidayCalendar[]): HolidayCalendar {
+  const weekendDays = calendars.length
+    ? calendars[0].weekendDays.filter(day => calendars.every(c => c.weekendDays.includes(day)))
+    : [];
+  const closed = (c: HolidayCalendar, d: Date) => c.weekendDays.includes(d.getDay()) || c.isHoliday(d);
+  return calendarFrom(weekendDays, year => mergeHolidays(
+    calendars.flatMap(c => c.holidaysInYear(year)).filter(h => calendars.every(c => closed(c, h.date)))
+  ));
+}
+
+/**
+ * Sort holidays by date, keeping the first of any that fall on the same day
+ */
+function mergeHolidays(holidays: Holiday[]): Holiday[] {
+  return holidays
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .filter((h, i, sorted) => i === 0 || h.date.getTime() !== sorted[i - 1].date.getTime());
+}
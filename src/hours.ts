@@ -0,0 +1,185 @@
+/**
+ * Business hours: working-time arithmetic within daily schedules
+ */
+
+import type { BusinessDayOptions, BusinessHours, DateInput, Duration, TimeRange } from './types.js';
+import { toDate } from './core.js';
+import { zonedParts, wallTime, fromZonedParts } from './timezone.js';
+import { duration } from './duration.js';
+import { isBusinessDay } from './business.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+// Holiday-only options per schedule (weekly closures come from schedule.week), reused so they stay indexed
+const dayOptionsCache = new WeakMap<BusinessHours, BusinessDayOptions>();
+// How many consecutive closed days to scan before giving up (e.g., a schedule with no open days)
+const MAX_CLOSED_DAYS = 3660;
+
+interface Day {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Minutes since midnight of an "HH:mm" time
+ */
+function toMinutes(time: string): number {
+  const m = time.match(/^(\d{1,2}):(\d{2})$/);
+  const minutes = m ? parseInt(m[1], 10) * 60 + parseInt(m[2], 10) : NaN;
+  if (!m || parseInt(m[2], 10) > 59 || minutes > 24 * 60) {
+    throw new RangeError(`Invalid business hours time: ${time}`);
+  }
+  return minutes;
+}
+
+/**
+ * Wall-clock day containing an instant, in the schedule's timezone or host local time
+ */
+function dayOf(t: number, timeZone?: string): Day {
+  if (timeZone) {
+    const { year, month, day } = zonedParts(t, timeZone);
+    return { year, month, day };
+  }
+  const d = new Date(t);
+  return { year: d.getFullYear(), month: d.getMonth(), day: d.getDate() };
+}
+
+function shiftDay({ year, month, day }: Day, days: number): Day {
+  const d = new Date(wallTime({ year, month, day: day + days }));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate() };
+}
+
+function instant({ year, month, day }: Day, minutes: number, timeZone?: string): number {
+  return timeZone
+    ? fromZonedParts({ year, month, day, minutes }, timeZone).getTime()
+    : new Date(year, month, day, 0, minutes).getTime();
+}
+
+/**
+ * Open intervals [start, end) of a wall-clock day as timestamps, in order, with breaks removed
+ */
+function openIntervals(day: Day, schedule: BusinessHours): Array<[number, number]> {
+  const ranges = schedule.week[new Date(wallTime(day)).getUTCDay()] ?? [];
+  let dayOptions = dayOptionsCache.get(schedule);
+  if (!dayOptions || dayOptions.holidays !== schedule.holidays || dayOptions.calendar !== schedule.calendar) {
+    dayOptions = { holidays: schedule.holidays, calendar: schedule.calendar, weekendDays: [] };
+    dayOptionsCache.set(schedule, dayOptions);
+  }
+  if (!ranges.length || !isBusinessDay(new Date(day.year, day.month, day.day), dayOptions)) return [];
+
+  const minutes = ([from, to]: TimeRange): [number, number] => {
+    const range: [number, number] = [toMinutes(from), toMinutes(to)];
+    if (range[1] <= range[0]) {
+      throw new RangeError(`Business hours must close after they open (overnight ranges are not supported): ${from}-${to}`);
+    }
+    return range;
+  };
+
+  // Overlapping or adjacent ranges count once
+  let open: Array<[number, number]> = [];
+  for (const [start, end] of ranges.map(minutes).sort((a, b) => a[0] - b[0])) {
+    const last = open[open.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else open.push([start, end]);
+  }
+  for (const [breakStart, breakEnd] of (schedule.breaks ?? []).map(minutes)) {
+    open = open.flatMap(([start, end]): Array<[number, number]> =>
+      [[start, Math.min(end, breakStart)], [Math.max(start, breakEnd), end]]);
+    open = open.filter(([start, end]) => start < end);
+  }
+
+  return open.map(([start, end]) => [instant(day, start, schedule.timeZone), instant(day, end, schedule.timeZone)]);
+}
+
+/**
+ * Open intervals from an instant onward, the first one clipped to start at it
+ */
+function* openAfter(t: number, schedule: BusinessHours): Generator<[number, number]> {
+  let day = dayOf(t, schedule.timeZone);
+  for (let closed = 0; closed < MAX_CLOSED_DAYS; day = shiftDay(day, 1)) {
+    const intervals = openIntervals(day, schedule);
+    closed = intervals.length ? 0 : closed + 1;
+    for (const [start, end] of intervals) {
+      if (end > t) yield [Math.max(start, t), end];
+    }
+  }
+  throw new RangeError('No business hours found in 10 consecutive years');
+}
+
+/**
+ * Open intervals before an instant, latest first, the first one clipped to end at it
+ */
+function* openBefore(t: number, schedule: BusinessHours): Generator<[number, number]> {
+  let day = dayOf(t, schedule.timeZone);
+  for (let closed = 0; closed < MAX_CLOSED_DAYS; day = shiftDay(day, -1)) {
+    const intervals = openIntervals(day, schedule);
+    closed = intervals.length ? 0 : closed + 1;
+    for (const [start, end] of intervals.reverse()) {
+      if (start < t) yield [start, Math.min(end, t)];
+    }
+  }
+  throw new RangeError('No business hours found in 10 consecutive years');
+}
+
+/**
+ * Check if a date falls within business hours (open time inclusive, close time exclusive)
+ */
+export function isWithinBusinessHours(input: DateInput, schedule: BusinessHours): boolean {
+  const t = toDate(input).getTime();
+  return openIntervals(dayOf(t, schedule.timeZone), schedule).some(([start, end]) => start <= t && t < end);
+}
+
+/**
+ * Get the first instant at or after a date when business is open (the date itself if already open)
+ */
+export function nextBusinessOpen(input: DateInput, schedule: BusinessHours): Date {
+  const [[start]] = openAfter(toDate(input).getTime(), schedule);
+  return new Date(start);
+}
+
+/**
+ * Add business hours (may be fractional or negative), counting only open time.
+ * Landing exactly on a close returns the close time rather than the next open.
+ */
+export function addBusinessHours(input: DateInput, amount: number, schedule: BusinessHours): Date {
+  const t = toDate(input).getTime();
+  let remaining = Math.abs(amount) * HOUR_MS;
+  if (remaining === 0) return new Date(t);
+
+  if (amount > 0) {
+    for (const [start, end] of openAfter(t, schedule)) {
+      if (end - start >= remaining) return new Date(start + remaining);
+      remaining -= end - start;
+    }
+  } else {
+    for (const [start, end] of openBefore(t, schedule)) {
+      if (end - start >= remaining) return new Date(end - remaining);
+      remaining -= end - start;
+    }
+  }
+  return new Date(NaN);
+}
+
+/**
+ * Get the business time between two dates (b - a) as hours, minutes, seconds and milliseconds
+ */
+export function businessTimeBetween(a: DateInput, b: DateInput, schedule: BusinessHours): Duration {
+  const t1 = toDate(a).getTime();
+  const t2 = toDate(b).getTime();
+  const [from, to] = t1 <= t2 ? [t1, t2] : [t2, t1];
+
+  let total = 0;
+  for (let day = dayOf(from, schedule.timeZone); instant(day, 0, schedule.timeZone) < to; day = shiftDay(day, 1)) {
+    for (const [start, end] of openIntervals(day, schedule)) {
+      total += Math.max(0, Math.min(end, to) - Math.max(start, from));
+    }
+  }
+
+  const sign = t1 <= t2 ? 1 : -1;
+  return duration({
+    hours: sign * Math.floor(total / HOUR_MS) + 0,
+    minutes: sign * Math.floor((total % HOUR_MS) / 60000) + 0,
+    seconds: sign * Math.floor((total % 60000) / 1000) + 0,
+    milliseconds: sign * (total % 1000) + 0,
+  });
+}
@@ -7,31 +7,82 @@
 export type {
   DateInput,
   FormatOptions,
+  FormatPart,
   RelativeTimeOptions,
+  RelativeTimeUnit,
+  CalendarOptions,
+  WatchRelativeOptions,
+  Clock,
   Unit,
   Duration,
+  DurationUnit,
+  DurationComponents,
+  DurationLike,
+  DurationFormatOptions,
+  DiffOptions,
+  RoundingMode,
   BusinessDayOptions,
+  HolidayCalendar,
+  HolidayRule,
+  Holiday,
+  ObservedRule,
+  BusinessHours,
+  TimeRange,
+  DayCountConvention,
+  RollConvention,
+  RollOptions,
   Interval,
+  TimeZoneOptions,
+  NaturalParseOptions,
+  DateParts,
+  ZonedTimePolicy,
+  ZonedPartsOptions,
+  TimezoneTransition,
+  ToDateOptions,
+  ParseOptions,
+  ParseError,
+  ParseErrorCode,
+  ParseResult,
 } from './types.js';
 
 // Core
 export { toDate, isValid, clone, now } from './core.js';
 
+// ISO 8601 parsing
+export { parseISO } from './iso.js';
+
 // Formatting
 export {
   format,
+  formatToParts,
+  formatRange,
   formatStr,
   toISO,
   toTime,
   toISOString,
   parse,
+  tryParse,
   formatDate,
   formatDateTime,
   formatTime,
 } from './format.js';
 
+// Natural-language parsing
+export { parseNatural } from './natural.js';
+
+// RFC 2822 / HTTP-date / RFC 3339
+export {
+  toRFC2822,
+  toHTTPDate,
+  toRFC3339,
+  parseRFC2822,
+  parseHTTPDate,
+  parseRFC3339,
+} from './rfc.js';
+
 // Relative time
-export { relative, timeAgo } from './relative.js';
+export { relative, timeAgo, calendar, nextRelativeChange } from './relative.js';
+export { watchRelative } from './watch.js';
 
 // Arithmetic
 export {
@@ -73,6 +124,7 @@ export {
 // Difference
 export {
   diff,
+  diffBreakdown,
   diffInYears,
   diffInMonths,
   diffInWeeks,
@@ -113,7 +165,7 @@ export {
 } from './utils.js';
 
 // Duration
-export { duration, durationBetween } from './duration.js';
+export { duration, durationBetween, parseDuration, formatDuration } from './duration.js';
 
 // Timezone
 export {
@@ -125,7 +177,11 @@ export {
   getTimezoneName,
   getTimezoneOffsetStr,
   tzOffset,
+  getTransitions,
+  isDST,
   toTimezone,
+  toISOStringInTz,
+  fromZonedParts,
   guessTimezone,
   isValidTimezone,
   listTimezones,
@@ -145,6 +201,28 @@ export {
   diffInBusinessDays,
 } from './business.js';
 
+// Holiday calendars
+export { holidayCalendar, unionCalendars, intersectCalendars, easter } from './holidays.js';
+export {
+  usFederalHolidays,
+  nyseHolidays,
+  ukBankHolidays,
+  target2Holidays,
+  japanHolidays,
+  chinaHolidays,
+} from './calendars.js';
+
+// Business hours
+export {
+  isWithinBusinessHours,
+  nextBusinessOpen,
+  addBusinessHours,
+  businessTimeBetween,
+} from './hours.js';
+
+// Financial conventions
+export { dayCountFraction, rollDate, addMonthsRolled } from './finance.js';
+
 // Intervals
 export {
   interval,
@@ -157,4 +235,4 @@ export {
 
 // Chainable wrapper
 export { d } from './wrapper.js';
-export type { DateWrapper } from './wrapper.js';
+export type { DateWrapper, ZonedDateWrapper } from './wrapper.js';
@@ -2,13 +2,14 @@
  * Date intervals/ranges
  */
 
-import type { DateInput, Interval, Duration } from './types.js';
+import type { DateInput, Interval, Duration, FormatOptions } from './types.js';
 import { toDate, isValid } from './core.js';
 import { addDays, addWeeks, addMonths } from './arithmetic.js';
 import { isBetween } from './compare.js';
 import { diffInDays } from './diff.js';
 import { startOf } from './period.js';
 import { durationBetween } from './duration.js';
+import { formatRange } from './format.js';
 
 /**
  * Create an interval between two dates
@@ -67,6 +68,10 @@ export function interval(start: DateInput, end: DateInput): Interval {
     isValid(): boolean {
       return isValid(s) && isValid(e) && s <= e;
     },
+
+    format(options: FormatOptions = {}): string {
+      return formatRange(s, e, options);
+    },
   };
 }
 
@@ -0,0 +1,187 @@
+/**
+ * Strict ISO 8601 parsing
+ */
+
+const YEAR = '([+-]\\d{6}|\\d{4})';
+
+// Date forms: [regex, kind, extended]
+const DATE_FORMS: Array<[RegExp, 'calendar' | 'month' | 'year' | 'week' | 'ordinal', boolean | null]> = [
+  [new RegExp(`^${YEAR}-(\\d{2})-(\\d{2})$`), 'calendar', true],
+  [new RegExp(`^${YEAR}(\\d{2})(\\d{2})$`), 'calendar', false],
+  [new RegExp(`^${YEAR}-W(\\d{2})(?:-(\\d))?$`), 'week', true],
+  [new RegExp(`^${YEAR}W(\\d{2})(\\d)?$`), 'week', false],
+  [new RegExp(`^${YEAR}-(\\d{3})$`), 'ordinal', true],
+  [new RegExp(`^${YEAR}(\\d{3})$`), 'ordinal', false],
+  [new RegExp(`^${YEAR}-(\\d{2})$`), 'month', true],
+  [new RegExp(`^${YEAR}$`), 'year', null],
+];
+
+const TIME_EXTENDED = /^(\d{2})(?::(\d{2})(?::(\d{2}))?)?(?:[.,](\d+))?$/;
+const TIME_BASIC = /^(\d{2})(?:(\d{2})(\d{2})?)?(?:[.,](\d+))?$/;
+const OFFSET = /(Z|[+-]\d{2}(?::?\d{2})?)$/;
+
+function isLeap(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || (year % 400 === 0);
+}
+
+function daysIn(year: number, month: number): number {
+  return [31, isLeap(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month];
+}
+
+/**
+ * Number of ISO weeks in a year (52 or 53)
+ */
+function isoWeeksInYear(year: number): number {
+  const p = (y: number) => ((y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400)) % 7 + 7) % 7;
+  return p(year) === 4 || p(year - 1) === 3 ? 53 : 52;
+}
+
+/**
+ * Calendar date (in UTC fields) for a day counted from January 1 of a year
+ */
+function fromDayOffset(year: number, days: number): { year: number; month: number; day: number } {
+  const d = new Date(0);
+  d.setUTCFullYear(year, 0, 1 + days);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate() };
+}
+
+function parseYear(raw: string): number {
+  if (raw === '-000000') return NaN;
+  return parseInt(raw, 10);
+}
+
+type DatePart = { year: number; month: number; day: number; extended: boolean | null; complete: boolean };
+
+function parseDatePart(str: string): DatePart | null {
+  for (const [regex, kind, extended] of DATE_FORMS) {
+    const m = str.match(regex);
+    if (!m) continue;
+
+    const year = parseYear(m[1]);
+    if (isNaN(year)) return null;
+
+    switch (kind) {
+      case 'calendar': {
+        const month = parseInt(m[2], 10) - 1;
+        const day = parseInt(m[3], 10);
+        if (month < 0 || month > 11 || day < 1 || day > daysIn(year, month)) return null;
+        return { year, month, day, extended, complete: true };
+      }
+      case 'month': {
+        const month = parseInt(m[2], 10) - 1;
+        if (month < 0 || month > 11) return null;
+        return { year, month, day: 1, extended, complete: false };
+      }
+      case 'year':
+        return { year, month: 0, day: 1, extended, complete: false };
+      case 'week': {
+        const week = parseInt(m[2], 10);
+        const weekday = m[3] ? parseInt(m[3], 10) : 1;
+        if (week < 1 || week > isoWeeksInYear(year) || weekday < 1 || weekday > 7) return null;
+        // Week 1 is the week containing January 4
+        const jan4 = new Date(0);
+        jan4.setUTCFullYear(year, 0, 4);
+        const jan4Weekday = (jan4.getUTCDay() + 6) % 7;
+        const day = fromDayOffset(year, 3 - jan4Weekday + (week - 1) * 7 + weekday - 1);
+        return { ...day, extended, complete: m[3] !== undefined };
+      }
+      case 'ordinal': {
+        const ordinal = parseInt(m[2], 10);
+        if (ordinal < 1 || ordinal > (isLeap(year) ? 366 : 365)) return null;
+        return { ...fromDayOffset(year, ordinal - 1), extended, complete: true };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a time of day (without offset) to milliseconds since midnight
+ */
+function parseTimePart(str: string): { ms: number; extended: boolean | null } | null {
+  const extendedMatch = str.match(TIME_EXTENDED);
+  const m = extendedMatch ?? str.match(TIME_BASIC);
+  if (!m) return null;
+
+  const hours = parseInt(m[1], 10);
+  const minutes = m[2] !== undefined ? parseInt(m[2], 10) : 0;
+  const seconds = m[3] !== undefined ? parseInt(m[3], 10) : 0;
+  const fraction = m[4] !== undefined ? parseFloat('0.' + m[4]) : 0;
+
+  if (hours > 24 || minutes > 59 || seconds > 59) return null;
+  if (hours === 24 && (minutes > 0 || seconds > 0 || fraction > 0)) return null;
+
+  // The fraction applies to the last component present
+  const fractionUnit = m[3] !== undefined ? 1000 : m[2] !== undefined ? 60 * 1000 : 60 * 60 * 1000;
+  const ms = Math.round(hours * 3600000 + minutes * 60000 + seconds * 1000 + fraction * fractionUnit);
+
+  const extended = m[2] === undefined ? null : extendedMatch !== null;
+  return { ms, extended };
+}
+
+/**
+ * Parse an offset designator to minutes east of UTC
+ */
+function parseOffset(str: string): { minutes: number; extended: boolean | null } | null {
+  if (str === 'Z') return { minutes: 0, extended: null };
+  const m = str.match(/^([+-])(\d{2})(:)?(\d{2})?$/);
+  if (!m || (m[3] && !m[4])) return null;
+  const hours = parseInt(m[2], 10);
+  const minutes = m[4] ? parseInt(m[4], 10) : 0;
+  if (hours > 23 || minutes > 59) return null;
+  const sign = m[1] === '-' ? -1 : 1;
+  return { minutes: sign * (hours * 60 + minutes), extended: m[4] ? m[3] === ':' : null };
+}
+
+/**
+ * Parse an ISO 8601 string strictly, independent of the JS engine.
+ * Supports calendar, week (2024-W10-3) and ordinal (2024-070) dates in basic and
+ * extended format, fractional time components and offsets. Strings without an
+ * offset are local time. Returns Invalid Date on malformed input.
+ */
+export function parseISO(str: string): Date {
+  const invalid = new Date(NaN);
+  const [datePart, timeWithOffset, ...rest] = str.split('T');
+  if (rest.length > 0 || !datePart) return invalid;
+
+  const date = parseDatePart(datePart);
+  if (!date) return invalid;
+
+  let timeMs = 0;
+  let offsetMinutes: number | null = null;
+  const formats: Array<boolean | null> = [date.extended];
+
+  if (timeWithOffset !== undefined) {
+    if (!date.complete) return invalid;
+
+    let timeStr = timeWithOffset;
+    const offsetMatch = timeStr.match(OFFSET);
+    if (offsetMatch) {
+      const offset = parseOffset(offsetMatch[1]);
+      if (!offset) return invalid;
+      offsetMinutes = offset.minutes;
+      formats.push(offset.extended);
+      timeStr = timeStr.slice(0, -offsetMatch[1].length);
+    }
+
+    const time = parseTimePart(timeStr);
+    if (!time) return invalid;
+    timeMs = time.ms;
+    formats.push(time.extended);
+  }
+
+  // Basic and extended format must not be mixed
+  const explicit = formats.filter(f => f !== null);
+  if (explicit.some(f => f !== explicit[0])) return invalid;
+
+  if (offsetMinutes !== null) {
+    const d = new Date(0);
+    d.setUTCFullYear(date.year, date.month, date.day);
+    return new Date(d.getTime() + timeMs - offsetMinutes * 60 * 1000);
+  }
+
+  const d = new Date(2000, 0, 1);
+  d.setFullYear(date.year, date.month, date.day);
+  d.setHours(0, 0, 0, timeMs);
+  return d;
+}
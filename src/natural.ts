@@ -0,0 +1,281 @@
+/**
+ * Natural-language date parsing (English)
+ */
+
+import type { DateParts, DurationUnit, Interval, NaturalParseOptions } from './types.js';
+import { toDate } from './core.js';
+import { add } from './arithmetic.js';
+import { startOf, endOf } from './period.js';
+import { interval } from './interval.js';
+import { zonedParts, fromZonedParts, wallTime } from './timezone.js';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june',
+                'july', 'august', 'september', 'october', 'november', 'december'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3,
+  fourth: 4, '4th': 4, fifth: 5, '5th': 5, last: -1,
+};
+
+const UNITS: Record<string, DurationUnit> = {
+  second: 'seconds', sec: 'seconds',
+  minute: 'minutes', min: 'minutes',
+  hour: 'hours', hr: 'hours',
+  day: 'days', week: 'weeks', month: 'months', year: 'years',
+};
+
+// Times of day named by a word
+const DAY_TIMES: Record<string, [number, number]> = {
+  noon: [12, 0], midday: [12, 0], midnight: [0, 0],
+  morning: [9, 0], afternoon: [15, 0], evening: [18, 0], tonight: [20, 0],
+};
+
+type WallParts = Required<DateParts>;
+
+// A resolved expression: wall-clock parts, and whether it names a whole day
+interface Resolved {
+  parts: WallParts;
+  dateOnly: boolean;
+}
+
+// Full names or abbreviations of at least three letters ("fri", "sept")
+function lookup(names: string[], word: string): number {
+  return word.length >= 3 ? names.findIndex(name => name.startsWith(word)) : -1;
+}
+
+function toNumber(word: string): number {
+  return NUMBER_WORDS[word] ?? (/^\d+$/.test(word) ? parseInt(word, 10) : NaN);
+}
+
+function partsOf(d: Date, timeZone?: string): WallParts {
+  if (timeZone) return zonedParts(d, timeZone);
+  return {
+    year: d.getFullYear(), month: d.getMonth(), day: d.getDate(),
+    hours: d.getHours(), minutes: d.getMinutes(), seconds: d.getSeconds(), milliseconds: d.getMilliseconds(),
+  };
+}
+
+function instant(p: WallParts, timeZone?: string): Date {
+  if (timeZone) return fromZonedParts(p, timeZone);
+  const d = new Date(2000, 0, 1);
+  d.setFullYear(p.year, p.month, p.day);
+  d.setHours(p.hours, p.minutes, p.seconds, p.milliseconds);
+  return d;
+}
+
+// Normalize overflowing fields (e.g., day 32) through a UTC round trip
+function normalize(p: WallParts): WallParts {
+  const d = new Date(wallTime(p));
+  return {
+    year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate(),
+    hours: d.getUTCHours(), minutes: d.getUTCMinutes(), seconds: d.getUTCSeconds(), milliseconds: d.getUTCMilliseconds(),
+  };
+}
+
+function day(p: DateParts): Resolved {
+  const parts = { year: p.year, month: p.month, day: p.day, hours: 0, minutes: 0, seconds: 0, milliseconds: 0 };
+  return { parts: normalize(parts), dateOnly: true };
+}
+
+function weekdayOf(p: DateParts): number {
+  return new Date(wallTime(p)).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(wallTime({ year, month: month + 1, day: 0 })).getUTCDate();
+}
+
+/**
+ * Pull a time of day out of the text ("at 5pm", "17:30", "noon").
+ * Returns null for an out-of-range time.
+ */
+function extractTime(text: string): { rest: string; time?: [number, number] } | null {
+  const patterns: Array<[RegExp, (m: RegExpMatchArray) => [number, number] | null]> = [
+    [/\b(?:at |in the |this )?(noon|midday|midnight|morning|afternoon|evening|tonight)\b/, m => DAY_TIMES[m[1]]],
+    [/\b(?:at )?(\d{1,2})(?::(\d{2}))? ?([ap])\.?m\.?(?=\s|$)/, m => {
+      const hour = parseInt(m[1], 10);
+      const minute = m[2] ? parseInt(m[2], 10) : 0;
+      if (hour < 1 || hour > 12 || minute > 59) return null;
+      return [hour % 12 + (m[3] === 'p' ? 12 : 0), minute];
+    }],
+    [/\b(?:at )?(\d{1,2}):(\d{2})\b/, m => {
+      const hour = parseInt(m[1], 10);
+      const minute = parseInt(m[2], 10);
+      return hour > 23 || minute > 59 ? null : [hour, minute];
+    }],
+    [/\bat (\d{1,2})$/, m => (parseInt(m[1], 10) > 23 ? null : [parseInt(m[1], 10), 0])],
+  ];
+
+  for (const [regex, toTime] of patterns) {
+    const m = text.match(regex);
+    if (!m) continue;
+    const time = toTime(m);
+    if (!time) return null;
+    const rest = (text.slice(0, m.index) + ' ' + text.slice((m.index ?? 0) + m[0].length)).replace(/\s+/g, ' ').trim();
+    return { rest, time };
+  }
+  return { rest: text };
+}
+
+/**
+ * Resolve a month reference ("march", "march 2025", "next month", "the month")
+ */
+function resolveMonth(text: string, today: WallParts): { year: number; month: number; explicitYear: boolean } | null {
+  const relative = text.match(/^(?:the |this )?month$|^(next|last) month$/);
+  if (relative) {
+    const offset = relative[1] === 'next' ? 1 : relative[1] === 'last' ? -1 : 0;
+    const p = normalize({ ...today, day: 1, month: today.month + offset });
+    return { year: p.year, month: p.month, explicitYear: true };
+  }
+  const named = text.match(/^([a-z]+)(?:,? (\d{4}))?$/);
+  const month = named ? lookup(MONTHS, named[1]) : -1;
+  if (!named || month < 0) return null;
+  return { year: named[2] ? parseInt(named[2], 10) : today.year, month, explicitYear: named[2] !== undefined };
+}
+
+/**
+ * The nth (or last, n = -1) weekday of a month, or null if the month has no such day
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): DateParts | null {
+  if (n < 0) {
+    const last = daysInMonth(year, month);
+    return { year, month, day: last - ((weekdayOf({ year, month, day: last }) - weekday + 7) % 7) };
+  }
+  const first = 1 + ((weekday - weekdayOf({ year, month, day: 1 }) + 7) % 7);
+  const result = first + (n - 1) * 7;
+  return result > daysInMonth(year, month) ? null : { year, month, day: result };
+}
+
+const isBefore = (a: DateParts, b: DateParts) =>
+  a.year !== b.year ? a.year < b.year : a.month !== b.month ? a.month < b.month : a.day < b.day;
+
+/**
+ * Resolve the date part of an expression (everything except the time of day)
+ */
+function resolveDate(text: string, base: Date, timeZone?: string): Resolved | null {
+  const now = partsOf(base, timeZone);
+  const s = text.replace(/^on /, '');
+  let m: RegExpMatchArray | null;
+
+  if (s === '' || s === 'today') return day(now);
+  if (s === 'now' || s === 'right now') return { parts: now, dateOnly: false };
+  if (s === 'tomorrow') return day({ ...now, day: now.day + 1 });
+  if (s === 'yesterday') return day({ ...now, day: now.day - 1 });
+  if (/^(?:the )?day after tomorrow$/.test(s)) return day({ ...now, day: now.day + 2 });
+  if (/^(?:the )?day before yesterday$/.test(s)) return day({ ...now, day: now.day - 2 });
+
+  // "in 3 days", "3 days from now", "2 weeks ago"
+  if ((m = s.match(/^(?:in )?([a-z]+|\d+) ([a-z]+?)s?( ago| from now| later)?$/)) && (s.startsWith('in ') || m[3])) {
+    const amount = toNumber(m[1]);
+    const unit = UNITS[m[2]];
+    if (isNaN(amount) || !unit || (s.startsWith('in ') && m[3] === ' ago')) return null;
+    const sign = m[3] === ' ago' ? -1 : 1;
+    const date = add(base, { [unit]: sign * amount }, { timeZone });
+    return { parts: partsOf(date, timeZone), dateOnly: false };
+  }
+
+  // "next week", "last month", "this year"
+  if ((m = s.match(/^(next|last|this) (week|month|year)$/))) {
+    const offset = m[1] === 'next' ? 1 : m[1] === 'last' ? -1 : 0;
+    return day(partsOf(add(base, { [UNITS[m[2]]]: offset }, { timeZone }), timeZone));
+  }
+
+  // "end of month", "start of next week", "the beginning of the year"
+  if ((m = s.match(/^(?:the )?(start|beginning|end) of (?:the )?(?:(this|next|last) )?(day|week|month|year)$/))) {
+    const unit = m[3] as 'day' | 'week' | 'month' | 'year';
+    const offset = m[2] === 'next' ? 1 : m[2] === 'last' ? -1 : 0;
+    const ref = add(base, { [UNITS[unit]]: offset }, { timeZone });
+    const date = m[1] === 'end' ? endOf(ref, unit, { timeZone }) : startOf(ref, unit, { timeZone });
+    return { parts: partsOf(date, timeZone), dateOnly: false };
+  }
+
+  // "first monday of march", "last friday of the month", "2nd tuesday of next month"
+  if ((m = s.match(/^(?:the )?([a-z0-9]+) ([a-z]+) (?:of|in) (.+)$/)) && m[1] in ORDINALS) {
+    const weekday = lookup(WEEKDAYS, m[2]);
+    const month = resolveMonth(m[3], now);
+    if (weekday < 0 || !month) return null;
+    let result = nthWeekday(month.year, month.month, weekday, ORDINALS[m[1]]);
+    // Without a year, a month that has passed means next year's
+    if (result && !month.explicitYear && isBefore(result, now)) {
+      result = nthWeekday(month.year + 1, month.month, weekday, ORDINALS[m[1]]);
+    }
+    return result ? day(result) : null;
+  }
+
+  // "friday" (today or later), "next friday" (after today), "last friday" (before today)
+  if ((m = s.match(/^(?:(next|last|this) )?([a-z]+)$/)) && lookup(WEEKDAYS, m[2]) >= 0) {
+    const target = lookup(WEEKDAYS, m[2]);
+    const current = weekdayOf(now);
+    const offset = m[1] === 'last'
+      ? -((current - target + 7) % 7 || 7)
+      : m[1] === 'next' ? (target - current + 7) % 7 || 7 : (target - current + 7) % 7;
+    return day({ ...now, day: now.day + offset });
+  }
+
+  // "march 5", "march 5th 2025", "5 march", "the 5th of march"
+  if ((m = s.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/)) ||
+      (m = s.match(/^(?:the )?(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)(?:,? (\d{4}))?$/))) {
+    const [monthWord, dayStr] = /^\d/.test(m[1]) ? [m[2], m[1]] : [m[1], m[2]];
+    const month = lookup(MONTHS, monthWord);
+    const dayOfMonth = parseInt(dayStr, 10);
+    let year = m[3] ? parseInt(m[3], 10) : now.year;
+    if (month < 0 || dayOfMonth < 1 || dayOfMonth > daysInMonth(year, month)) return null;
+    if (!m[3] && isBefore({ year, month, day: dayOfMonth }, now)) year += 1;
+    if (dayOfMonth > daysInMonth(year, month)) return null;
+    return day({ year, month, day: dayOfMonth });
+  }
+
+  // ISO calendar date
+  if ((m = s.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    const [year, month, dayOfMonth] = [parseInt(m[1], 10), parseInt(m[2], 10) - 1, parseInt(m[3], 10)];
+    if (month > 11 || dayOfMonth < 1 || dayOfMonth > daysInMonth(year, month)) return null;
+    return day({ year, month, day: dayOfMonth });
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a single expression: a date part and an optional time of day, in either order
+ */
+function resolveExpression(text: string, base: Date, timeZone?: string): Resolved | null {
+  const extracted = extractTime(text);
+  if (!extracted) return null;
+  const resolved = resolveDate(extracted.rest, base, timeZone);
+  if (!resolved || !extracted.time) return resolved;
+  const [hours, minutes] = extracted.time;
+  return { parts: { ...resolved.parts, hours, minutes, seconds: 0, milliseconds: 0 }, dateOnly: false };
+}
+
+/**
+ * Parse an English date phrase relative to options.base (default: now), e.g. "tomorrow at 5pm",
+ * "next friday", "in 3 days", "2 weeks ago", "end of month", "first monday of march".
+ * Ranges ("from monday to wednesday") return an Interval ending at the end of the last day.
+ * Returns Invalid Date for phrases it does not understand.
+ */
+export function parseNatural(text: string, options: NaturalParseOptions = {}): Date | Interval {
+  const { base = Date.now(), timeZone } = options;
+  const s = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const baseDate = toDate(base);
+
+  const range = s.match(/^(?:from|between) (.+?) (?:to|until|till|through|and) (.+)$/);
+  if (range) {
+    const start = resolveExpression(range[1], baseDate, timeZone);
+    if (!start) return new Date(NaN);
+    const startDate = instant(start.parts, timeZone);
+    // The end is read relative to the start, so "from friday to monday" spans the weekend
+    const end = resolveExpression(range[2], startDate, timeZone);
+    if (!end) return new Date(NaN);
+    const endDate = end.dateOnly ? endOf(instant(end.parts, timeZone), 'day', { timeZone }) : instant(end.parts, timeZone);
+    return endDate < startDate ? new Date(NaN) : interval(startDate, endDate);
+  }
+
+  const resolved = resolveExpression(s, baseDate, timeZone);
+  return resolved ? instant(resolved.parts, timeZone) : new Date(NaN);
+}
@@ -2,15 +2,72 @@
  * Start/End of period functions
  */
 
-import type { DateInput } from './types.js';
+import type { DateInput, DateParts, TimeZoneOptions } from './types.js';
 import { toDate } from './core.js';
+import { zonedParts, fromZonedParts, wallTime } from './timezone.js';
+
+type PeriodUnit = 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute';
 
 /**
- * Get start of a time period
+ * Truncate wall-clock parts to the start of a period
  */
-export function startOf(input: DateInput, unit: 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute'): Date {
+function periodStartParts(p: Required<DateParts>, unit: PeriodUnit): DateParts {
+  switch (unit) {
+    case 'year':
+      return { year: p.year, month: 0, day: 1 };
+    case 'month':
+      return { year: p.year, month: p.month, day: 1 };
+    case 'week': {
+      const weekday = new Date(wallTime(p)).getUTCDay();
+      return { year: p.year, month: p.month, day: p.day - weekday };
+    }
+    case 'day':
+      return { year: p.year, month: p.month, day: p.day };
+    case 'hour':
+      return { ...p, minutes: 0, seconds: 0, milliseconds: 0 };
+    case 'minute':
+      return { ...p, seconds: 0, milliseconds: 0 };
+  }
+}
+
+/**
+ * Get the start of the period following the one that starts at the given parts
+ */
+function nextPeriodParts(start: DateParts, unit: 'year' | 'month' | 'week' | 'day'): DateParts {
+  switch (unit) {
+    case 'year':
+      return { ...start, year: start.year + 1 };
+    case 'month':
+      return { ...start, month: start.month + 1 };
+    case 'week':
+      return { ...start, day: start.day + 7 };
+    case 'day':
+      return { ...start, day: start.day + 1 };
+  }
+}
+
+/**
+ * Resolve period-start parts to an instant. Hours and minutes are truncated by
+ * elapsed time so a repeated (fall-back) hour keeps its own offset.
+ */
+function resolvePeriodStart(d: Date, p: Required<DateParts>, start: DateParts, unit: PeriodUnit, timezone: string): Date {
+  if (unit === 'hour' || unit === 'minute') {
+    return new Date(d.getTime() - (wallTime(p) - wallTime(start)));
+  }
+  return fromZonedParts(start, timezone);
+}
+
+/**
+ * Get start of a time period (in host local time, or in options.timeZone)
+ */
+export function startOf(input: DateInput, unit: PeriodUnit, options: TimeZoneOptions = {}): Date {
   const d = toDate(input);
 
+  if (options.timeZone) {
+    const p = zonedParts(d, options.timeZone);
+    return resolvePeriodStart(d, p, periodStartParts(p, unit), unit, options.timeZone);
+  }
+
   switch (unit) {
     case 'year':
       return new Date(d.getFullYear(), 0, 1, 0, 0, 0, 0);
@@ -33,11 +90,21 @@ export function startOf(input: DateInput, unit: 'year' | 'month' | 'week' | 'day
 }
 
 /**
- * Get end of a time period
+ * Get end of a time period (in host local time, or in options.timeZone)
  */
-export function endOf(input: DateInput, unit: 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute'): Date {
+export function endOf(input: DateInput, unit: PeriodUnit, options: TimeZoneOptions = {}): Date {
   const d = toDate(input);
 
+  if (options.timeZone) {
+    const p = zonedParts(d, options.timeZone);
+    const startParts = periodStartParts(p, unit);
+    if (unit === 'hour' || unit === 'minute') {
+      const length = unit === 'hour' ? 60 * 60 * 1000 : 60 * 1000;
+      return new Date(resolvePeriodStart(d, p, startParts, unit, options.timeZone).getTime() + length - 1);
+    }
+    return new Date(fromZonedParts(nextPeriodParts(startParts, unit), options.timeZone).getTime() - 1);
+  }
+
   switch (unit) {
     case 'year':
       return new Date(d.getFullYear(), 11, 31, 23, 59, 59, 999);
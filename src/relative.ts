@@ -2,12 +2,15 @@
  * Relative time formatting
  */
 
-import type { DateInput, RelativeTimeOptions } from './types.js';
+import type { CalendarOptions, DateInput, RelativeTimeOptions, RelativeTimeUnit } from './types.js';
 import { toDate } from './core.js';
+import { diff } from './diff.js';
+import { format, formatToParts } from './format.js';
+import { zonedParts, wallTime } from './timezone.js';
 
 const rtfCache = new Map<string, Intl.RelativeTimeFormat>();
 
-function getRelativeFormatter(options: RelativeTimeOptions): Intl.RelativeTimeFormat {
+function getRelativeFormatter(options: Pick<RelativeTimeOptions, 'locale' | 'style' | 'numeric'>): Intl.RelativeTimeFormat {
   const key = JSON.stringify(options);
   let formatter = rtfCache.get(key);
   if (!formatter) {
@@ -18,30 +21,182 @@ function getRelativeFormatter(options: RelativeTimeOptions): Intl.RelativeTimeFo
   return formatter;
 }
 
+const UNITS: RelativeTimeUnit[] = ['second', 'minute', 'hour', 'day', 'week', 'month', 'year'];
+
+const UNIT_MS: Record<RelativeTimeUnit, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_THRESHOLDS: Record<RelativeTimeUnit, number> = {
+  second: 60,
+  minute: 60,
+  hour: 24,
+  day: 7,
+  week: 4,
+  month: 12,
+  year: Infinity,
+};
+
 /**
- * Get relative time string (e.g., "2 hours ago", "in 3 days")
+ * Pick the unit relative() shows (null for "now") and format it
+ */
+function resolveRelative(
+  input: DateInput,
+  options: RelativeTimeOptions
+): { unit: RelativeTimeUnit | null; text: string; below?: RelativeTimeUnit } {
+  const {
+    locale, style, numeric = 'auto', base = Date.now(), thresholds = {}, units,
+    minUnit = 'second', maxUnit = 'year', rounding = 'round', calendar = false, justNow,
+  } = options;
+  const d = toDate(input);
+  const from = toDate(base);
+  const diffMs = d.getTime() - from.getTime();
+
+  if (justNow !== undefined && Math.abs(diffMs) < justNow * 1000) {
+    return { unit: null, text: getRelativeFormatter({ locale, style, numeric: 'auto' }).format(0, 'second') };
+  }
+
+  const allowed = UNITS.filter((u, i) =>
+    (!units || units.includes(u)) && i >= UNITS.indexOf(minUnit) && i <= UNITS.indexOf(maxUnit));
+  if (allowed.length === 0) {
+    throw new RangeError('No relative time units allowed by units/minUnit/maxUnit');
+  }
+
+  // Round the magnitude so past and future spans mirror each other
+  const valueIn = (unit: RelativeTimeUnit) => {
+    const exact = calendar && UNIT_MS[unit] >= UNIT_MS.day
+      ? diff(d, from, unit, { float: true })
+      : diffMs / UNIT_MS[unit];
+    return Math.sign(exact) * Math[rounding](Math.abs(exact)) + 0;
+  };
+  const limit = (unit: RelativeTimeUnit) => thresholds[unit] ?? DEFAULT_THRESHOLDS[unit];
+
+  // Move on once the span reaches the threshold of the unit just below the next allowed one
+  const edgeAfter = (i: number) => UNITS[UNITS.indexOf(allowed[i + 1]) - 1];
+  const unit = allowed.find((_, i) => i < allowed.length - 1 && Math.abs(valueIn(edgeAfter(i))) < limit(edgeAfter(i)))
+    ?? allowed[allowed.length - 1];
+  // The unit whose value must fall below its threshold to move down to the next smaller allowed unit
+  const i = allowed.indexOf(unit);
+  const below = i > 0 ? edgeAfter(i - 1) : undefined;
+  return { unit, text: getRelativeFormatter({ locale, style, numeric }).format(valueIn(unit), unit), below };
+}
+
+/**
+ * Get relative time string (e.g., "2 hours ago", "in 3 days").
+ * Picks the smallest allowed unit whose value stays below its threshold.
  */
 export function relative(input: DateInput, options: RelativeTimeOptions = {}): string {
+  return resolveRelative(input, options).text;
+}
+
+/**
+ * Earliest time (ms since epoch) after options.base at which relative() may give a different result.
+ * Exact for fixed-length units; with options.calendar it is at most an hour away.
+ */
+export function nextRelativeChange(input: DateInput, options: RelativeTimeOptions = {}): number {
+  const { base = Date.now(), rounding = 'round', calendar = false, justNow, thresholds = {} } = options;
+  const target = toDate(input).getTime();
+  const now = toDate(base).getTime();
+  const diffMs = target - now;
+  const { unit, below } = resolveRelative(input, { ...options, base: now });
+  const candidates: number[] = [];
+
+  if (justNow !== undefined) {
+    // Entering the "now" window ahead of the target, or leaving it afterwards
+    const window = justNow * 1000;
+    candidates.push(diffMs >= window ? target - window + 1 : target + window);
+  }
+
+  if (unit) {
+    // Values change when the span crosses a rounding boundary of the unit shown or any larger one:
+    // just past the boundary ahead of the target, on reaching it after the target
+    const offset = rounding === 'round' ? 0.5 : 0;
+    for (const u of UNITS.slice(UNITS.indexOf(unit))) {
+      const steps = diffMs / UNIT_MS[u] - offset;
+      const boundary = (diffMs > 0 ? Math.floor(steps) : Math.ceil(steps) - 1) + offset;
+      candidates.push(target - boundary * UNIT_MS[u] + (boundary > 0 ? 1 : 0));
+    }
+    // A future span also changes unit when it falls below the threshold of the next smaller unit
+    if (below && diffMs > 0) {
+      const threshold = (thresholds[below] ?? DEFAULT_THRESHOLDS[below]) - offset;
+      candidates.push(target - threshold * UNIT_MS[below] + 1);
+    }
+    if (calendar) candidates.push(now + UNIT_MS.hour);
+  }
+
+  return Math.min(...candidates.filter(t => t > now));
+}
+
+// "Last Friday" / "Next Tuesday" patterns by language ({0} is the weekday name).
+// Other languages use the weekday name alone.
+const WEEKDAY_PATTERNS: Record<string, { last: string; next: string }> = {
+  en: { last: 'last {0}', next: 'next {0}' },
+  de: { last: 'letzten {0}', next: 'nächsten {0}' },
+  fr: { last: '{0} dernier', next: '{0} prochain' },
+  es: { last: 'el {0} pasado', next: 'el {0} próximo' },
+  nl: { last: 'afgelopen {0}', next: 'volgende {0}' },
+};
+
+const connectorCache = new Map<string, string>();
+
+/**
+ * The locale's separator between a date and a time (e.g., " at ", " um ", " à ")
+ */
+function dateTimeConnector(locale: string): string {
+  let connector = connectorCache.get(locale);
+  if (connector === undefined) {
+    const parts = formatToParts(0, { locale, dateStyle: 'full', timeStyle: 'short', timeZone: 'UTC' });
+    const timeStart = parts.findIndex(p => p.type === 'hour' || p.type === 'dayPeriod');
+    const before = parts[timeStart - 1];
+    connector = before?.type === 'literal' ? before.value : ' ';
+    connectorCache.set(locale, connector);
+  }
+  return connector;
+}
+
+/**
+ * Calendar day number of a date, in the host timezone or timeZone
+ */
+function dayNumber(d: Date, timeZone?: string): number {
+  const p = timeZone ? zonedParts(d, timeZone) : { year: d.getFullYear(), month: d.getMonth(), day: d.getDate() };
+  return Math.round(wallTime({ year: p.year, month: p.month, day: p.day }) / (24 * 60 * 60 * 1000));
+}
+
+function capitalize(str: string, locale: string): string {
+  return str.charAt(0).toLocaleUpperCase(locale) + str.slice(1);
+}
+
+/**
+ * Get a calendar-style label relative to a base day: "Today at 9:30 AM", "Yesterday at 3:00 PM",
+ * "Last Friday at 3:00 PM", "Next Tuesday at 9:30 AM", or the full date beyond a week.
+ */
+export function calendar(input: DateInput, options: CalendarOptions = {}): string {
+  const { base = Date.now(), locale = 'en-US', timeZone, withTime = true } = options;
   const d = toDate(input);
-  const now = Date.now();
-  const diffMs = d.getTime() - now;
-  const diffSec = Math.round(diffMs / 1000);
-  const diffMin = Math.round(diffSec / 60);
-  const diffHour = Math.round(diffMin / 60);
-  const diffDay = Math.round(diffHour / 24);
-  const diffWeek = Math.round(diffDay / 7);
-  const diffMonth = Math.round(diffDay / 30);
-  const diffYear = Math.round(diffDay / 365);
-
-  const rtf = getRelativeFormatter({ numeric: 'auto', ...options });
-
-  if (Math.abs(diffSec) < 60) return rtf.format(diffSec, 'second');
-  if (Math.abs(diffMin) < 60) return rtf.format(diffMin, 'minute');
-  if (Math.abs(diffHour) < 24) return rtf.format(diffHour, 'hour');
-  if (Math.abs(diffDay) < 7) return rtf.format(diffDay, 'day');
-  if (Math.abs(diffWeek) < 4) return rtf.format(diffWeek, 'week');
-  if (Math.abs(diffMonth) < 12) return rtf.format(diffMonth, 'month');
-  return rtf.format(diffYear, 'year');
+  const days = dayNumber(d, timeZone) - dayNumber(toDate(base), timeZone);
+
+  if (Math.abs(days) >= 7) {
+    return format(d, { locale, dateStyle: 'long', timeZone });
+  }
+
+  let label: string;
+  if (Math.abs(days) <= 1) {
+    label = getRelativeFormatter({ locale, numeric: 'auto' }).format(days, 'day');
+  } else {
+    const weekday = format(d, { locale, weekday: 'long', timeZone });
+    const patterns = WEEKDAY_PATTERNS[new Intl.Locale(locale).language];
+    label = patterns ? patterns[days < 0 ? 'last' : 'next'].replace('{0}', weekday) : weekday;
+  }
+
+  label = capitalize(label, locale);
+  if (!withTime) return label;
+  return label + dateTimeConnector(locale) + format(d, { locale, timeStyle: 'short', timeZone });
 }
 
 /**
@@ -0,0 +1,194 @@
+/**
+ * RFC 2822 / RFC 7231 (HTTP-date) / RFC 3339 formatting and parsing
+ */
+
+import type { DateInput } from './types.js';
+import { toDate } from './core.js';
+import { zonedParts, wallTime } from './timezone.js';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAYS_LONG = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Obsolete RFC 2822 zone names (military zones other than Z are treated as -0000)
+const OBS_ZONES: Record<string, number> = {
+  UT: 0, GMT: 0, Z: 0,
+  EST: -300, EDT: -240,
+  CST: -360, CDT: -300,
+  MST: -420, MDT: -360,
+  PST: -480, PDT: -420,
+};
+
+const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+
+/**
+ * Wall-clock fields and offset (minutes) of a date, in UTC or a timezone
+ */
+function fieldsOf(d: Date, timeZone?: string) {
+  if (!timeZone) {
+    return {
+      year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate(), weekday: d.getUTCDay(),
+      hours: d.getUTCHours(), minutes: d.getUTCMinutes(), seconds: d.getUTCSeconds(),
+      milliseconds: d.getUTCMilliseconds(), offset: 0,
+    };
+  }
+  const p = zonedParts(d, timeZone);
+  const wall = wallTime(p);
+  return {
+    ...p,
+    weekday: new Date(wall).getUTCDay(),
+    offset: Math.round((wall - d.getTime()) / (60 * 1000)),
+  };
+}
+
+function offsetStr(offset: number, separator: string): string {
+  const abs = Math.abs(offset);
+  return `${offset < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}${separator}${pad(abs % 60)}`;
+}
+
+/**
+ * Build a Date from UTC fields, rejecting out-of-range values instead of rolling over
+ */
+function fromFields(year: number, month: number, day: number, hours: number, minutes: number, seconds: number, ms: number, offset: number): Date {
+  if (hours > 23 || minutes > 59 || seconds > 59) return new Date(NaN);
+  const d = new Date(0);
+  d.setUTCFullYear(year, month, day);
+  d.setUTCHours(hours, minutes, seconds, ms);
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month || d.getUTCDate() !== day) {
+    return new Date(NaN);
+  }
+  return new Date(d.getTime() - offset * 60 * 1000);
+}
+
+/**
+ * Format as RFC 2822 (e.g., "Sun, 10 Mar 2024 10:15:00 +0000"), in UTC or options.timeZone
+ */
+export function toRFC2822(input: DateInput, options: { timeZone?: string } = {}): string {
+  const f = fieldsOf(toDate(input), options.timeZone);
+  return `${DAYS[f.weekday]}, ${pad(f.day)} ${MONTHS[f.month]} ${pad(f.year, 4)} ` +
+    `${pad(f.hours)}:${pad(f.minutes)}:${pad(f.seconds)} ${offsetStr(f.offset, '')}`;
+}
+
+/**
+ * Format as an HTTP-date (IMF-fixdate, e.g., "Sun, 10 Mar 2024 10:15:00 GMT")
+ */
+export function toHTTPDate(input: DateInput): string {
+  const f = fieldsOf(toDate(input));
+  return `${DAYS[f.weekday]}, ${pad(f.day)} ${MONTHS[f.month]} ${pad(f.year, 4)} ` +
+    `${pad(f.hours)}:${pad(f.minutes)}:${pad(f.seconds)} GMT`;
+}
+
+/**
+ * Format as RFC 3339 (e.g., "2024-03-10T10:15:00.000Z").
+ * Without a timeZone the result is UTC ("Z"); with one it carries the zone's numeric offset.
+ */
+export function toRFC3339(input: DateInput, options: { timeZone?: string; fractionDigits?: number } = {}): string {
+  const { timeZone, fractionDigits = 3 } = options;
+  const f = fieldsOf(toDate(input), timeZone);
+  const fraction = fractionDigits > 0
+    ? '.' + pad(f.milliseconds, 3).padEnd(fractionDigits, '0').slice(0, fractionDigits)
+    : '';
+  return `${pad(f.year, 4)}-${pad(f.month + 1)}-${pad(f.day)}T${pad(f.hours)}:${pad(f.minutes)}:${pad(f.seconds)}` +
+    fraction + (timeZone ? offsetStr(f.offset, ':') : 'Z');
+}
+
+/**
+ * Parse an RFC 2822 date-time, including obsolete zone names and two-digit years.
+ * Returns Invalid Date on malformed input or a mismatched day of week.
+ */
+export function parseRFC2822(str: string): Date {
+  // Drop comments and fold whitespace
+  const s = str.replace(/\([^()]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+  const m = s.match(
+    /^(?:([A-Za-z]{3}) ?, ?)?(\d{1,2}) ([A-Za-z]{3}) (\d{2,4}) (\d{2}) ?: ?(\d{2})(?: ?: ?(\d{2}))? ([+-]\d{4}|[A-Za-z]{1,3})$/
+  );
+  if (!m) return new Date(NaN);
+
+  const month = MONTHS.findIndex(n => n.toLowerCase() === m[3].toLowerCase());
+  if (month < 0) return new Date(NaN);
+
+  let year = parseInt(m[4], 10);
+  if (m[4].length === 2) year += year < 50 ? 2000 : 1900;
+  else if (m[4].length === 3) year += 1900;
+
+  let offset: number;
+  const zone = m[8];
+  if (/^[+-]\d{4}$/.test(zone)) {
+    const hours = parseInt(zone.slice(1, 3), 10);
+    const minutes = parseInt(zone.slice(3), 10);
+    if (minutes > 59) return new Date(NaN);
+    offset = (zone[0] === '-' ? -1 : 1) * (hours * 60 + minutes);
+  } else {
+    const upper = zone.toUpperCase();
+    if (upper in OBS_ZONES) offset = OBS_ZONES[upper];
+    else if (/^[A-IK-Z]$/.test(upper)) offset = 0;
+    else return new Date(NaN);
+  }
+
+  const d = fromFields(year, month, parseInt(m[2], 10), parseInt(m[5], 10), parseInt(m[6], 10),
+    m[7] ? parseInt(m[7], 10) : 0, 0, offset);
+
+  if (m[1] && !isNaN(d.getTime())) {
+    const weekday = DAYS.findIndex(n => n.toLowerCase() === m[1].toLowerCase());
+    if (weekday !== new Date(d.getTime() + offset * 60 * 1000).getUTCDay()) return new Date(NaN);
+  }
+
+  return d;
+}
+
+/**
+ * Parse an HTTP-date: IMF-fixdate, or the obsolete RFC 850 and asctime forms.
+ * Returns Invalid Date on malformed input or a mismatched day of week.
+ */
+export function parseHTTPDate(str: string): Date {
+  let weekday: number;
+  let d: Date;
+  let m: RegExpMatchArray | null;
+
+  if ((m = str.match(/^([A-Z][a-z]{2}), (\d{2}) ([A-Z][a-z]{2}) (\d{4}) (\d{2}):(\d{2}):(\d{2}) GMT$/))) {
+    // IMF-fixdate: Sun, 06 Nov 1994 08:49:37 GMT
+    weekday = DAYS.indexOf(m[1]);
+    d = fromFields(parseInt(m[4], 10), MONTHS.indexOf(m[3]), parseInt(m[2], 10),
+      parseInt(m[5], 10), parseInt(m[6], 10), parseInt(m[7], 10), 0, 0);
+  } else if ((m = str.match(/^([A-Z][a-z]+), (\d{2})-([A-Z][a-z]{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2}) GMT$/))) {
+    // RFC 850: Sunday, 06-Nov-94 08:49:37 GMT
+    // Two-digit years more than 50 years in the future refer to the past century (RFC 7231)
+    weekday = DAYS_LONG.indexOf(m[1]);
+    const currentYear = new Date().getUTCFullYear();
+    let year = Math.floor(currentYear / 100) * 100 + parseInt(m[4], 10);
+    if (year > currentYear + 50) year -= 100;
+    d = fromFields(year, MONTHS.indexOf(m[3]), parseInt(m[2], 10),
+      parseInt(m[5], 10), parseInt(m[6], 10), parseInt(m[7], 10), 0, 0);
+  } else if ((m = str.match(/^([A-Z][a-z]{2}) ([A-Z][a-z]{2}) ( \d|\d{2}) (\d{2}):(\d{2}):(\d{2}) (\d{4})$/))) {
+    // asctime: Sun Nov  6 08:49:37 1994
+    weekday = DAYS.indexOf(m[1]);
+    d = fromFields(parseInt(m[7], 10), MONTHS.indexOf(m[2]), parseInt(m[3], 10),
+      parseInt(m[4], 10), parseInt(m[5], 10), parseInt(m[6], 10), 0, 0);
+  } else {
+    return new Date(NaN);
+  }
+
+  if (isNaN(d.getTime()) || weekday !== d.getUTCDay()) return new Date(NaN);
+  return d;
+}
+
+/**
+ * Parse an RFC 3339 date-time (e.g., "2024-03-10T10:15:00.5+05:30").
+ * An offset is required; leap seconds (:60) are rejected. Returns Invalid Date on malformed input.
+ */
+export function parseRFC3339(str: string): Date {
+  const m = str.match(/^(\d{4})-(\d{2})-(\d{2})[Tt ](\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?([Zz]|[+-]\d{2}:\d{2})$/);
+  if (!m) return new Date(NaN);
+
+  let offset = 0;
+  if (m[8].toUpperCase() !== 'Z') {
+    const hours = parseInt(m[8].slice(1, 3), 10);
+    const minutes = parseInt(m[8].slice(4), 10);
+    if (hours > 23 || minutes > 59) return new Date(NaN);
+    offset = (m[8][0] === '-' ? -1 : 1) * (hours * 60 + minutes);
+  }
+
+  const ms = m[7] ? Math.floor(parseFloat('0.' + m[7]) * 1000) : 0;
+  return fromFields(parseInt(m[1], 10), parseInt(m[2], 10) - 1, parseInt(m[3], 10),
+    parseInt(m[4], 10), parseInt(m[5], 10), parseInt(m[6], 10), ms, offset);
+}
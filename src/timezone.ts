@@ -2,9 +2,9 @@
  * Timezone support functions
  */
 
-import type { DateInput, FormatOptions } from './types.js';
+import type { DateInput, DateParts, FormatOptions, TimezoneTransition, ZonedPartsOptions } from './types.js';
 import { toDate } from './core.js';
-import { format } from './format.js';
+import { format, renderTemplate, templateTokens } from './format.js';
 
 /**
  * Create a UTC date
@@ -97,69 +97,190 @@ export function tzOffset(input: DateInput, timezone: string): number {
 }
 
 /**
- * Format date with template in a specific timezone
+ * List offset changes (DST and other transitions) of a timezone within a range.
+ * Offsets are sampled weekly, so two changes less than a week apart that cancel out are not reported.
  */
-export function formatStrInTz(input: DateInput, template: string, timezone: string, locale = 'en-US'): string {
+export function getTransitions(timezone: string, start: DateInput, end: DateInput): TimezoneTransition[] {
+  const step = 7 * 24 * 60 * 60 * 1000;
+  const endTime = toDate(end).getTime();
+  const transitions: TimezoneTransition[] = [];
+
+  let lo = toDate(start).getTime();
+  let loOffset = offsetMs(lo, timezone);
+
+  while (lo < endTime) {
+    const next = Math.min(lo + step, endTime);
+    const nextOffset = offsetMs(next, timezone);
+
+    if (nextOffset === loOffset) {
+      lo = next;
+      continue;
+    }
+
+    // Bisect to the first millisecond with the new offset
+    let a = lo;
+    let b = next;
+    while (b - a > 1) {
+      const mid = Math.floor((a + b) / 2);
+      if (offsetMs(mid, timezone) === loOffset) a = mid;
+      else b = mid;
+    }
+
+    const offsetAfter = offsetMs(b, timezone);
+    transitions.push({
+      at: new Date(b),
+      offsetBefore: loOffset / (60 * 1000),
+      offsetAfter: offsetAfter / (60 * 1000),
+      abbrBefore: getTimezoneAbbr(a, timezone),
+      abbrAfter: getTimezoneAbbr(b, timezone),
+    });
+    lo = b;
+    loOffset = offsetAfter;
+  }
+
+  return transitions;
+}
+
+/**
+ * Check if daylight saving time is in effect at a date in a timezone
+ */
+export function isDST(input: DateInput, timezone: string): boolean {
+  const t = toDate(input).getTime();
+  const year = zonedParts(t, timezone).year;
+  const january = offsetMs(wallTime({ year, month: 0, day: 1 }), timezone);
+  const july = offsetMs(wallTime({ year, month: 6, day: 1 }), timezone);
+  return offsetMs(t, timezone) > Math.min(january, july);
+}
+
+// Cache wall-clock formatters per timezone
+const partsFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    partsFormatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get wall-clock parts of a date in a specific timezone
+ */
+export function zonedParts(input: DateInput, timezone: string): Required<DateParts> {
   const d = toDate(input);
+  const parts = getPartsFormatter(timezone).formatToParts(d);
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const t = d.getTime();
 
-  const formatter = new Intl.DateTimeFormat(locale, {
-    timeZone: timezone,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-    hour12: false,
-  });
+  return {
+    year: get('year'),
+    month: get('month') - 1,
+    day: get('day'),
+    hours: get('hour'),
+    minutes: get('minute'),
+    seconds: get('second'),
+    milliseconds: ((t % 1000) + 1000) % 1000,
+  };
+}
 
-  const parts = formatter.formatToParts(d);
-  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+/**
+ * Get the timestamp the wall-clock parts would have in UTC (fields may overflow)
+ */
+export function wallTime(parts: DateParts): number {
+  const d = new Date(0);
+  d.setUTCFullYear(parts.year, parts.month, parts.day);
+  d.setUTCHours(parts.hours ?? 0, parts.minutes ?? 0, parts.seconds ?? 0, parts.milliseconds ?? 0);
+  return d.getTime();
+}
+
+/**
+ * Offset from UTC in milliseconds at an instant
+ */
+function offsetMs(t: number, timezone: string): number {
+  return wallTime(zonedParts(t, timezone)) - t;
+}
+
+/**
+ * Build a Date from wall-clock parts in a specific timezone (inverse of toTimezone).
+ * Fields overflow like Date.UTC. Times in a DST gap or overlap follow the given policies.
+ */
+export function fromZonedParts(parts: DateParts, timezone: string, options: ZonedPartsOptions = {}): Date {
+  const { nonexistent = 'later', ambiguous = 'earlier' } = options;
+  const wall = wallTime(parts);
+  const day = 24 * 60 * 60 * 1000;
+  const offsetBefore = offsetMs(wall - day, timezone);
+  const offsetAfter = offsetMs(wall + day, timezone);
+  const earlier = wall - Math.max(offsetBefore, offsetAfter);
+  const later = wall - Math.min(offsetBefore, offsetAfter);
+
+  const candidates = [earlier, later].filter(t => wallTime(zonedParts(t, timezone)) === wall);
 
-  const year = parseInt(get('year'));
-  const month = parseInt(get('month')) - 1;
-  const day = parseInt(get('day'));
-  const hours = parseInt(get('hour'));
-  const minutes = parseInt(get('minute'));
-  const seconds = parseInt(get('second'));
+  if (candidates.length === 0) {
+    if (nonexistent === 'reject') {
+      throw new RangeError(`Local time does not exist in ${timezone} (DST gap)`);
+    }
+    // Shift by the gap length: 'earlier' lands before the transition, 'later' after it
+    return new Date(nonexistent === 'earlier' ? earlier : later);
+  }
+
+  if (candidates.length === 2 && earlier !== later) {
+    if (ambiguous === 'reject') {
+      throw new RangeError(`Local time is ambiguous in ${timezone} (DST overlap)`);
+    }
+    return new Date(ambiguous === 'earlier' ? earlier : later);
+  }
 
-  const monthLong = new Intl.DateTimeFormat(locale, { month: 'long', timeZone: timezone }).format(d);
-  const monthShort = new Intl.DateTimeFormat(locale, { month: 'short', timeZone: timezone }).format(d);
-  const dayLong = new Intl.DateTimeFormat(locale, { weekday: 'long', timeZone: timezone }).format(d);
-  const dayShort = new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: timezone }).format(d);
+  return new Date(candidates[0]);
+}
 
+/**
+ * Format to full ISO datetime string with the timezone's offset (e.g., "2024-01-15T19:30:00.000+09:00")
+ */
+export function toISOStringInTz(input: DateInput, timezone: string): string {
+  const d = toDate(input);
+  const p = zonedParts(d, timezone);
+  const offset = Math.round((wallTime(p) - d.getTime()) / (60 * 1000));
   const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
 
-  const tokens: Record<string, string> = {
-    'YYYY': String(year),
-    'YY': String(year).slice(-2),
-    'MMMM': monthLong,
-    'MMM': monthShort,
-    'MM': pad(month + 1),
-    'M': String(month + 1),
-    'DD': pad(day),
-    'D': String(day),
-    'dddd': dayLong,
-    'ddd': dayShort,
-    'HH': pad(hours),
-    'H': String(hours),
-    'hh': pad(hours % 12 || 12),
-    'h': String(hours % 12 || 12),
-    'mm': pad(minutes),
-    'm': String(minutes),
-    'ss': pad(seconds),
-    's': String(seconds),
-    'A': hours < 12 ? 'AM' : 'PM',
-    'a': hours < 12 ? 'am' : 'pm',
-    'z': getTimezoneAbbr(d, timezone),
-    'Z': getTimezoneOffsetStr(d, timezone),
-  };
+  return `${pad(p.year, 4)}-${pad(p.month + 1)}-${pad(p.day)}` +
+    `T${pad(p.hours)}:${pad(p.minutes)}:${pad(p.seconds)}.${pad(p.milliseconds, 3)}` +
+    `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * Format date with template in a specific timezone
+ */
+export function formatStrInTz(input: DateInput, template: string, timezone: string, locale = 'en-US'): string {
+  const d = toDate(input);
+  const p = zonedParts(d, timezone);
+  const wall = wallTime(p);
 
-  const pattern = Object.keys(tokens)
-    .sort((a, b) => b.length - a.length)
-    .join('|');
+  const tokens = templateTokens(d, {
+    year: p.year,
+    month: p.month,
+    date: p.day,
+    day: new Date(wall).getUTCDay(),
+    hours: p.hours,
+    minutes: p.minutes,
+    seconds: p.seconds,
+    ms: p.milliseconds,
+    offset: Math.round((wall - d.getTime()) / (60 * 1000)),
+  }, locale, timezone);
+  tokens['z'] = getTimezoneAbbr(d, timezone);
 
-  return template.replace(new RegExp(pattern, 'g'), match => tokens[match] || match);
+  return renderTemplate(template, tokens);
 }
 
 /**
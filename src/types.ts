@@ -4,28 +4,129 @@
 
 export type DateInput = Date | string | number;
 
+export interface ToDateOptions {
+  strict?: boolean;  // Parse strings with parseISO instead of the engine's Date parser
+}
+
 export interface FormatOptions {
   locale?: string;
+  skeleton?: string;  // CLDR skeleton resolved to locale patterns (e.g., 'yMMMd', 'jm', 'yQQQ')
+  dateStyle?: 'full' | 'long' | 'medium' | 'short';
+  timeStyle?: 'full' | 'long' | 'medium' | 'short';
   weekday?: 'long' | 'short' | 'narrow';
+  era?: 'long' | 'short' | 'narrow';
   year?: 'numeric' | '2-digit';
   month?: 'numeric' | '2-digit' | 'long' | 'short' | 'narrow';
   day?: 'numeric' | '2-digit';
+  dayPeriod?: 'narrow' | 'short' | 'long';
   hour?: 'numeric' | '2-digit';
   minute?: 'numeric' | '2-digit';
   second?: 'numeric' | '2-digit';
+  fractionalSecondDigits?: 1 | 2 | 3;
   hour12?: boolean;
+  hourCycle?: 'h11' | 'h12' | 'h23' | 'h24';
   timeZone?: string;
+  timeZoneName?: 'short' | 'long' | 'shortOffset' | 'longOffset' | 'shortGeneric' | 'longGeneric';
+  calendar?: string;
+  numberingSystem?: string;
+}
+
+export interface FormatPart {
+  type: Intl.DateTimeFormatPartTypes | 'quarter';
+  value: string;
+}
+
+export type RelativeTimeUnit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+export interface ParseOptions {
+  locale?: string;             // Month/day names, day periods and digits. Default: 'en-US'
+  twoDigitYearPivot?: number;  // YY maps into the 100 years ending here. Default: 2099 (always 20xx)
 }
 
+export type ParseErrorCode =
+  | 'unexpectedInput'   // Input doesn't match the template at this position
+  | 'trailingInput'     // Input continues after the template ends
+  | 'outOfRange'        // Field value outside its range (e.g., month 13, minute 60)
+  | 'invalidDate'       // Date doesn't exist (e.g., Feb 30, day 366 of a common year)
+  | 'weekdayMismatch'   // Weekday doesn't match the date
+  | 'fieldConflict';    // Fields contradict each other (e.g., quarter and month)
+
+export interface ParseError {
+  code: ParseErrorCode;
+  position: number;  // Index into the input
+  token: string;     // Template token or literal where the error was found
+}
+
+export type ParseResult = { ok: true; date: Date } | { ok: false; error: ParseError };
+
 export interface RelativeTimeOptions {
   locale?: string;
   style?: 'long' | 'short' | 'narrow';
   numeric?: 'always' | 'auto';
+  base?: DateInput;  // Reference date. Default: now
+  thresholds?: Partial<Record<RelativeTimeUnit, number>>;  // Stay in a unit below this value. Default: 60s, 60m, 24h, 7d, 4w, 12mo
+  units?: RelativeTimeUnit[];  // Units allowed in the output
+  minUnit?: RelativeTimeUnit;
+  maxUnit?: RelativeTimeUnit;
+  rounding?: RoundingMode;  // Default: 'round'
+  calendar?: boolean;  // Count days, weeks, months and years on the calendar instead of fixed lengths
+  justNow?: number;  // Show the locale's "now" for spans below this many seconds
+}
+
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export interface WatchRelativeOptions extends Omit<RelativeTimeOptions, 'base'> {
+  clock?: Clock;  // Time source and timers (default: Date.now and global timers)
+}
+
+export interface CalendarOptions extends TimeZoneOptions {
+  base?: DateInput;    // Reference date. Default: now
+  locale?: string;
+  withTime?: boolean;  // Append the time to day and weekday labels. Default: true
+}
+
+export interface TimeZoneOptions {
+  timeZone?: string;  // IANA zone for wall-clock calculations (default: host local time)
+}
+
+export interface NaturalParseOptions extends TimeZoneOptions {
+  base?: DateInput;  // Reference date for relative phrases. Default: now
+}
+
+export interface DateParts {
+  year: number;
+  month: number;  // 0-11
+  day: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+}
+
+export type ZonedTimePolicy = 'earlier' | 'later' | 'reject';
+
+export interface ZonedPartsOptions {
+  nonexistent?: ZonedTimePolicy;  // Spring-forward gap. Default: 'later'
+  ambiguous?: ZonedTimePolicy;    // Fall-back overlap. Default: 'earlier'
+}
+
+export interface TimezoneTransition {
+  at: Date;              // First instant with the new offset
+  offsetBefore: number;  // Minutes from UTC
+  offsetAfter: number;
+  abbrBefore: string;
+  abbrAfter: string;
 }
 
 export type Unit = 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute' | 'second' | 'millisecond';
 
-export interface Duration {
+export type DurationUnit = 'years' | 'months' | 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds' | 'milliseconds';
+
+export interface DurationComponents {
   years: number;
   months: number;
   weeks: number;
@@ -34,18 +135,114 @@ export interface Duration {
   minutes: number;
   seconds: number;
   milliseconds: number;
+}
+
+export type DurationLike = Partial<DurationComponents>;
+
+export interface Duration extends DurationComponents {
   asMilliseconds: () => number;
   asSeconds: () => number;
   asMinutes: () => number;
   asHours: () => number;
   asDays: () => number;
   asWeeks: () => number;
+  asMonths: () => number;
+  asYears: () => number;
   humanize: (locale?: string) => string;
+  toISO: () => string;
+  normalize: () => Duration;
+  shiftTo: (units: DurationUnit[], anchor?: DateInput) => Duration;
+  plus: (other: DurationLike) => Duration;
+  minus: (other: DurationLike) => Duration;
+  negate: () => Duration;
+  multiply: (factor: number) => Duration;
+  abs: () => Duration;
+  compare: (other: DurationLike, anchor?: DateInput) => number;
+  equals: (other: DurationLike) => boolean;
+  isZero: () => boolean;
+  round: (unit: Unit, mode?: RoundingMode) => Duration;
+}
+
+export type RoundingMode = 'round' | 'floor' | 'ceil' | 'trunc';
+
+export interface DiffOptions extends TimeZoneOptions {
+  float?: boolean;         // Keep the fractional part
+  rounding?: RoundingMode; // Applied when float is not set. Default: 'trunc' (toward zero)
+}
+
+export interface DurationFormatOptions {
+  locale?: string;
+  style?: 'long' | 'short' | 'narrow' | 'digital';  // Default: 'long'
+  units?: DurationUnit[];  // Express the duration in these units only
+  maxUnits?: number;       // Show at most this many of the largest non-zero units
+  round?: RoundingMode;    // Applied to the smallest unit shown. Default: 'trunc'
 }
 
 export interface BusinessDayOptions {
   weekendDays?: number[];  // Default: [0, 6] (Sunday, Saturday)
   holidays?: DateInput[];  // Specific dates to exclude
+  calendar?: HolidayCalendar;  // Rule-based holidays to exclude
+}
+
+export type DayCountConvention = '30/360' | '30E/360' | 'ACT/360' | 'ACT/365F' | 'ACT/ACT ISDA';
+
+// Where a date that isn't a business day moves to
+export type RollConvention =
+  | 'following'           // Next business day
+  | 'modifiedFollowing'   // Next business day, unless that is in the next month
+  | 'preceding'           // Previous business day
+  | 'modifiedPreceding';  // Previous business day, unless that is in the previous month
+
+export interface RollOptions extends BusinessDayOptions {
+  roll?: RollConvention;  // Default: 'modifiedFollowing'
+  endOfMonth?: boolean;   // Keep month-end dates at the last business day of the month
+}
+
+// Where a holiday that falls on a weekend is observed
+export type ObservedRule =
+  | 'nearestWeekday'        // Closest working day (Saturday → Friday, Sunday → Monday), later on a tie
+  | 'nextWeekday'           // Next weekday that isn't already a holiday
+  | 'nextWeekdayIfSunday';  // Same, but only for Sundays
+
+interface HolidayRuleBase {
+  name: string;
+  observed?: ObservedRule;  // Default: no shifting
+  fromYear?: number;        // First year the holiday applies
+  toYear?: number;          // Last year the holiday applies
+  exceptYears?: number[];   // Years the holiday is skipped (e.g., moved by one-off legislation)
+}
+
+export type HolidayRule = HolidayRuleBase & (
+  | { type: 'fixed'; month: number; day: number }                // month is 0-11
+  | { type: 'nthWeekday'; month: number; weekday: number; n: number }  // weekday 0 = Sunday; n = 1-5
+  | { type: 'lastWeekday'; month: number; weekday: number }
+  | { type: 'easter'; offset: number }                           // Days from Easter Sunday
+  | { type: 'lunar'; month: number; day: number; offset?: number }  // Chinese calendar, month 1-12
+  | { type: 'date'; date: DateInput }                            // One-off
+  | { type: 'custom'; resolve: (year: number) => DateInput | null }  // Date in that year, or null
+);
+
+export interface Holiday {
+  name: string;
+  date: Date;        // Day off (local midnight), after observed shifting
+  actualDate: Date;  // Date the rule gives
+  observed: boolean; // Whether date was shifted from actualDate
+}
+
+// Holidays by query only (no rule list), so rule-based and combined calendars share one shape
+export interface HolidayCalendar extends BusinessDayOptions {
+  weekendDays: number[];
+  holidaysInYear: (year: number) => Holiday[];
+  holidayOn: (date: DateInput) => Holiday | undefined;
+  isHoliday: (date: DateInput) => boolean;
+}
+
+// Wall-clock opening range within a day, e.g. ['09:00', '17:30'] (close may be '24:00')
+export type TimeRange = [open: string, close: string];
+
+export interface BusinessHours extends Omit<BusinessDayOptions, 'weekendDays'>, TimeZoneOptions {
+  week: Partial<Record<number, TimeRange[]>>;  // Open ranges by weekday (0 = Sunday); missing days are closed
+  breaks?: TimeRange[];                         // Closed every day (e.g., lunch)
 }
 
 export interface Interval {
@@ -59,4 +256,5 @@ export interface Interval {
   duration(): Duration;
   days(): number;
   isValid(): boolean;
+  format(options?: FormatOptions): string;
 }
@@ -0,0 +1,112 @@
+/**
+ * Auto-updating relative time
+ */
+
+import type { Clock, DateInput, WatchRelativeOptions } from './types.js';
+import { toDate } from './core.js';
+import { relative, nextRelativeChange } from './relative.js';
+
+// Longest delay setTimeout supports
+const MAX_DELAY = 2 ** 31 - 1;
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+interface Subscription {
+  date: Date;
+  options: WatchRelativeOptions;
+  callback: (text: string) => void;
+  text: string;
+  due: number;
+}
+
+// One timer per clock, set for the earliest update any subscriber needs
+interface Scheduler {
+  subscriptions: Set<Subscription>;
+  timer: unknown;
+  due: number;
+}
+
+const schedulers = new Map<Clock, Scheduler>();
+
+/**
+ * Recompute a subscription's text and next update time; returns whether the text changed
+ */
+function refresh(sub: Subscription, now: number): boolean {
+  const options = { ...sub.options, base: now };
+  const text = relative(sub.date, options);
+  sub.due = nextRelativeChange(sub.date, options);
+  const changed = text !== sub.text;
+  sub.text = text;
+  return changed;
+}
+
+function schedule(clock: Clock, scheduler: Scheduler): void {
+  let due = Infinity;
+  for (const sub of scheduler.subscriptions) due = Math.min(due, sub.due);
+  if (due === scheduler.due && scheduler.timer !== undefined) return;
+
+  if (scheduler.timer !== undefined) clock.clearTimeout(scheduler.timer);
+  scheduler.timer = undefined;
+  scheduler.due = due;
+  if (due === Infinity) return;
+
+  const delay = Math.min(Math.max(due - clock.now(), 0), MAX_DELAY);
+  scheduler.timer = clock.setTimeout(() => tick(clock, scheduler), delay);
+}
+
+function tick(clock: Clock, scheduler: Scheduler): void {
+  scheduler.timer = undefined;
+  const now = clock.now();
+  const changed: Subscription[] = [];
+  for (const sub of scheduler.subscriptions) {
+    if (sub.due <= now && refresh(sub, now)) changed.push(sub);
+  }
+  schedule(clock, scheduler);
+  // Callbacks run last so one that unsubscribes cannot break the timer. Errors are rethrown
+  // asynchronously so one failing subscriber doesn't stop the others from being called.
+  for (const sub of changed) {
+    try {
+      sub.callback(sub.text);
+    } catch (error) {
+      queueMicrotask(() => {
+        throw error;
+      });
+    }
+  }
+}
+
+/**
+ * Call back with relative(date) now and again each time the text changes
+ * (e.g., every second under a minute, every minute under an hour).
+ * All subscribers share one timer per clock. Returns a function that stops updates.
+ */
+export function watchRelative(
+  input: DateInput,
+  callback: (text: string) => void,
+  options: WatchRelativeOptions = {}
+): () => void {
+  const { clock = systemClock, ...relativeOptions } = options;
+  const sub: Subscription = { date: toDate(input), options: relativeOptions, callback, text: '', due: Infinity };
+
+  let scheduler = schedulers.get(clock);
+  if (!scheduler) {
+    scheduler = { subscriptions: new Set(), timer: undefined, due: Infinity };
+    schedulers.set(clock, scheduler);
+  }
+
+  refresh(sub, clock.now());
+  scheduler.subscriptions.add(sub);
+  schedule(clock, scheduler);
+  callback(sub.text);
+
+  const active = scheduler;
+  return () => {
+    if (!active.subscriptions.delete(sub)) return;
+    schedule(clock, active);
+    if (active.subscriptions.size === 0) schedulers.delete(clock);
+  };
+}
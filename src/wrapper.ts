@@ -2,7 +2,7 @@
  * Chainable date wrapper
  */
 
-import type { DateInput, Unit, RelativeTimeOptions, BusinessDayOptions } from './types.js';
+import type { DateInput, Unit, RelativeTimeOptions, BusinessDayOptions, DateParts, DiffOptions } from './types.js';
 import { toDate, isValid } from './core.js';
 import { formatStr, toISO, toISOString, toTime, formatDate, formatDateTime, formatTime } from './format.js';
 import { relative } from './relative.js';
@@ -15,6 +15,7 @@ import { getYear, getMonth, getDate, getDay, getHours, getMinutes, getSeconds, g
 import { startOf, endOf } from './period.js';
 import { dayOfYear, weekOfYear, quarter, daysInMonth, isLeapYear } from './utils.js';
 import { isBusinessDay, addBusinessDays, subBusinessDays, nextBusinessDay, prevBusinessDay } from './business.js';
+import { formatStrInTz, toISOStringInTz, zonedParts, wallTime, isValidTimezone } from './timezone.js';
 
 export interface DateWrapper {
   date(): Date;
@@ -85,7 +86,7 @@ export interface DateWrapper {
   isLeapYear(): boolean;
 
   // Difference
-  diff(other: DateInput, unit: Unit): number;
+  diff(other: DateInput, unit: Unit, options?: DiffOptions): number;
   diffInDays(other: DateInput): number;
   diffInHours(other: DateInput): number;
   diffInMinutes(other: DateInput): number;
@@ -99,10 +100,88 @@ export interface DateWrapper {
   nextBusinessDay(options?: BusinessDayOptions): DateWrapper;
   prevBusinessDay(options?: BusinessDayOptions): DateWrapper;
 
+  // Timezone
+  tz(timeZone: string): ZonedDateWrapper;
+
   // Clone
   clone(): DateWrapper;
 }
 
+export interface ZonedDateWrapper {
+  date(): Date;
+  valueOf(): number;
+  timeZone(): string;
+  tz(timeZone: string): ZonedDateWrapper;
+  local(): DateWrapper;
+
+  // Formatting
+  format(template: string, locale?: string): string;
+  toISO(): string;
+  toISOString(): string;
+  toTime(): string;
+  relative(options?: RelativeTimeOptions): string;
+  formatDate(locale?: string): string;
+  formatDateTime(locale?: string): string;
+  formatTime(locale?: string): string;
+
+  // Arithmetic
+  add(amount: number, unit: Unit): ZonedDateWrapper;
+  subtract(amount: number, unit: Unit): ZonedDateWrapper;
+  addYears(n: number): ZonedDateWrapper;
+  addMonths(n: number): ZonedDateWrapper;
+  addWeeks(n: number): ZonedDateWrapper;
+  addDays(n: number): ZonedDateWrapper;
+  addHours(n: number): ZonedDateWrapper;
+  addMinutes(n: number): ZonedDateWrapper;
+  addSeconds(n: number): ZonedDateWrapper;
+  subYears(n: number): ZonedDateWrapper;
+  subMonths(n: number): ZonedDateWrapper;
+  subWeeks(n: number): ZonedDateWrapper;
+  subDays(n: number): ZonedDateWrapper;
+  subHours(n: number): ZonedDateWrapper;
+  subMinutes(n: number): ZonedDateWrapper;
+  subSeconds(n: number): ZonedDateWrapper;
+
+  // Period boundaries
+  startOf(unit: 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute'): ZonedDateWrapper;
+  endOf(unit: 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute'): ZonedDateWrapper;
+
+  // Comparisons
+  isBefore(other: DateInput): boolean;
+  isAfter(other: DateInput): boolean;
+  isSameDay(other: DateInput): boolean;
+  isSameMonth(other: DateInput): boolean;
+  isSameYear(other: DateInput): boolean;
+  isBetween(start: DateInput, end: DateInput): boolean;
+  isToday(): boolean;
+  isYesterday(): boolean;
+  isTomorrow(): boolean;
+  isPast(): boolean;
+  isFuture(): boolean;
+  isWeekend(): boolean;
+  isWeekday(): boolean;
+  isValid(): boolean;
+
+  // Getters
+  year(): number;
+  month(): number;
+  day(): number;
+  weekday(): number;
+  hours(): number;
+  minutes(): number;
+  seconds(): number;
+  milliseconds(): number;
+  timestamp(): number;
+  dayOfYear(): number;
+  weekOfYear(): number;
+  quarter(): number;
+  daysInMonth(): number;
+  isLeapYear(): boolean;
+
+  // Clone
+  clone(): ZonedDateWrapper;
+}
+
 /**
  * Create a chainable date wrapper (Day.js-like API)
  */
@@ -178,7 +257,7 @@ export function d(input?: DateInput): DateWrapper {
     isLeapYear: () => isLeapYear(date),
 
     // Difference
-    diff: (other: DateInput, unit: Unit) => diff(date, other, unit),
+    diff: (other: DateInput, unit: Unit, options?: DiffOptions) => diff(date, other, unit, options),
     diffInDays: (other: DateInput) => diffInDays(date, other),
     diffInHours: (other: DateInput) => diffInHours(date, other),
     diffInMinutes: (other: DateInput) => diffInMinutes(date, other),
@@ -192,9 +271,122 @@ export function d(input?: DateInput): DateWrapper {
     nextBusinessDay: (options?: BusinessDayOptions) => d(nextBusinessDay(date, options)),
     prevBusinessDay: (options?: BusinessDayOptions) => d(prevBusinessDay(date, options)),
 
+    // Timezone
+    tz: (timeZone: string) => zoned(date, timeZone),
+
     // Clone
     clone: () => d(date),
   };
 
   return wrapper;
 }
+
+/**
+ * Local Date at noon on the same calendar day as the wall-clock parts,
+ * so local-time utilities see the zone's calendar date
+ */
+function calendarDate(p: DateParts): Date {
+  return new Date(p.year, p.month, p.day, 12);
+}
+
+function zoned(date: Date, timeZone: string): ZonedDateWrapper {
+  if (!isValidTimezone(timeZone)) {
+    throw new RangeError(`Invalid time zone: ${timeZone}`);
+  }
+
+  const options = { timeZone };
+  const parts = () => zonedParts(date, timeZone);
+  const sameDay = (a: DateParts, b: DateParts) => a.year === b.year && a.month === b.month && a.day === b.day;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const z = (next: Date) => zoned(next, timeZone);
+
+  const wrapper: ZonedDateWrapper = {
+    date: () => new Date(date.getTime()),
+    valueOf: () => date.getTime(),
+    timeZone: () => timeZone,
+    tz: (other: string) => zoned(date, other),
+    local: () => d(date),
+
+    // Formatting
+    format: (template: string, locale?: string) => formatStrInTz(date, template, timeZone, locale),
+    toISO: () => toISOStringInTz(date, timeZone).slice(0, 10),
+    toISOString: () => toISOStringInTz(date, timeZone),
+    toTime: () => {
+      const p = parts();
+      return `${pad(p.hours)}:${pad(p.minutes)}:${pad(p.seconds)}`;
+    },
+    relative: (opts?: RelativeTimeOptions) => relative(date, opts),
+    formatDate: (locale?: string) => formatDate(date, locale, timeZone),
+    formatDateTime: (locale?: string) => formatDateTime(date, locale, timeZone),
+    formatTime: (locale?: string) => formatTime(date, locale, timeZone),
+
+    // Arithmetic
+    add: (amount: number, unit: Unit) => z(add(date, amount, unit, options)),
+    subtract: (amount: number, unit: Unit) => z(subtract(date, amount, unit, options)),
+    addYears: (n: number) => z(addYears(date, n, options)),
+    addMonths: (n: number) => z(addMonths(date, n, options)),
+    addWeeks: (n: number) => z(addWeeks(date, n, options)),
+    addDays: (n: number) => z(addDays(date, n, options)),
+    addHours: (n: number) => z(addHours(date, n, options)),
+    addMinutes: (n: number) => z(addMinutes(date, n, options)),
+    addSeconds: (n: number) => z(addSeconds(date, n, options)),
+    subYears: (n: number) => z(subYears(date, n, options)),
+    subMonths: (n: number) => z(subMonths(date, n, options)),
+    subWeeks: (n: number) => z(subWeeks(date, n, options)),
+    subDays: (n: number) => z(subDays(date, n, options)),
+    subHours: (n: number) => z(subHours(date, n, options)),
+    subMinutes: (n: number) => z(subMinutes(date, n, options)),
+    subSeconds: (n: number) => z(subSeconds(date, n, options)),
+
+    // Period boundaries
+    startOf: (unit) => z(startOf(date, unit, options)),
+    endOf: (unit) => z(endOf(date, unit, options)),
+
+    // Comparisons
+    isBefore: (other: DateInput) => isBefore(date, other),
+    isAfter: (other: DateInput) => isAfter(date, other),
+    isSameDay: (other: DateInput) => sameDay(parts(), zonedParts(other, timeZone)),
+    isSameMonth: (other: DateInput) => {
+      const a = parts();
+      const b = zonedParts(other, timeZone);
+      return a.year === b.year && a.month === b.month;
+    },
+    isSameYear: (other: DateInput) => parts().year === zonedParts(other, timeZone).year,
+    isBetween: (start: DateInput, end: DateInput) => isBetween(date, start, end),
+    isToday: () => sameDay(parts(), zonedParts(new Date(), timeZone)),
+    isYesterday: () => sameDay(parts(), zonedParts(subDays(new Date(), 1, options), timeZone)),
+    isTomorrow: () => sameDay(parts(), zonedParts(addDays(new Date(), 1, options), timeZone)),
+    isPast: () => isPast(date),
+    isFuture: () => isFuture(date),
+    isWeekend: () => isWeekend(calendarDate(parts())),
+    isWeekday: () => isWeekday(calendarDate(parts())),
+    isValid: () => isValid(date),
+
+    // Getters
+    year: () => parts().year,
+    month: () => parts().month,
+    day: () => parts().day,
+    weekday: () => new Date(wallTime(parts())).getUTCDay(),
+    hours: () => parts().hours,
+    minutes: () => parts().minutes,
+    seconds: () => parts().seconds,
+    milliseconds: () => parts().milliseconds,
+    timestamp: () => getTime(date),
+    dayOfYear: () => dayOfYear(calendarDate(parts())),
+    weekOfYear: () => weekOfYear(calendarDate(parts())),
+    quarter: () => quarter(calendarDate(parts())),
+    daysInMonth: () => daysInMonth(calendarDate(parts())),
+    isLeapYear: () => isLeapYear(calendarDate(parts())),
+
+    // Clone
+    clone: () => z(date),
+  };
+
+  return wrapper;
+}
+
+/**
+ * Create a chainable date wrapper that reads and computes in an IANA timezone
+ */
+d.tz = (input: DateInput | undefined, timeZone: string): ZonedDateWrapper =>
+  zoned(input ? toDate(input) : new Date(), timeZone);
@@ -0,0 +1,72 @@
+// Compares addBusinessDays and diffInBusinessDays with a reference loop that steps one day at a
+// time, in the host timezone. Run by business.test.ts once per timezone (TZ); exits non-zero on a mismatch.
+import assert from 'node:assert/strict';
+import type { BusinessDayOptions, HolidayCalendar } from '../src/index.js';
+import {
+  addBusinessDays, diffInBusinessDays, nextBusinessDay, prevBusinessDay, addDays,
+  nyseHolidays, ukBankHolidays, unionCalendars,
+} from '../src/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isBusinessDayRef(d: Date, options: BusinessDayOptions): boolean {
+  const calendar = 'isHoliday' in options ? options as HolidayCalendar : options.calendar;
+  const weekendDays = options.weekendDays ?? calendar?.weekendDays ?? [0, 6];
+  const sameDay = (h: Date) =>
+    h.getFullYear() === d.getFullYear() && h.getMonth() === d.getMonth() && h.getDate() === d.getDate();
+  return !weekendDays.includes(d.getDay()) && !calendar?.isHoliday(d) &&
+    !(options.holidays as Date[] | undefined ?? []).some(sameDay);
+}
+
+function addBusinessDaysRef(start: Date, days: number, options: BusinessDayOptions): Date {
+  let d = start;
+  const direction = days >= 0 ? 1 : -1;
+  for (let remaining = Math.abs(days); remaining > 0;) {
+    d = addDays(d, direction);
+    if (isBusinessDayRef(d, options)) remaining--;
+  }
+  return d;
+}
+
+function diffInBusinessDaysRef(start: Date, end: Date, options: BusinessDayOptions): number {
+  const direction = start <= end ? 1 : -1;
+  let count = 0;
+  for (let d = start; direction === 1 ? d < end : d > end;) {
+    d = addDays(d, direction);
+    if (isBusinessDayRef(d, options)) count++;
+  }
+  return count * direction;
+}
+
+// Deterministic pseudo-random numbers in [0, 1)
+let seed = 42;
+const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+const base = new Date(2018, 0, 1).getTime();
+const holidays = Array.from({ length: 200 }, () => new Date(base + Math.floor(random() * 4000) * DAY_MS));
+const optionSets: BusinessDayOptions[] = [
+  {},
+  { holidays },
+  { weekendDays: [5, 6], holidays },
+  nyseHolidays(),
+  { calendar: unionCalendars(nyseHolidays(), ukBankHolidays()), holidays: holidays.slice(0, 50) },
+  { weekendDays: [0], calendar: nyseHolidays() },
+  { weekendDays: [1, 2, 3, 4, 5, 6] },
+];
+
+for (const [set, options] of optionSets.entries()) {
+  for (let i = 0; i < 150; i++) {
+    // Any time of day, so steps near midnight cross daylight-saving changes
+    const start = new Date(base + Math.floor(random() * 3600) * DAY_MS + Math.floor(random() * DAY_MS));
+    const days = Math.floor(random() * 200) - 100;
+    const end = new Date(start.getTime() + Math.floor((random() - 0.5) * 400 * DAY_MS));
+    const context = `options #${set}, ${start.toISOString()}`;
+
+    assert.equal(addBusinessDays(start, days, options).getTime(), addBusinessDaysRef(start, days, options).getTime(),
+      `addBusinessDays ${days}, ${context}`);
+    assert.equal(nextBusinessDay(start, options).getTime(), addBusinessDaysRef(start, 1, options).getTime(), context);
+    assert.equal(prevBusinessDay(start, options).getTime(), addBusinessDaysRef(start, -1, options).getTime(), context);
+    assert.equal(diffInBusinessDays(start, end, options), diffInBusinessDaysRef(start, end, options),
+      `diffInBusinessDays to ${end.toISOString()}, ${context}`);
+  }
+}
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { addBusinessDays, diffInBusinessDays, isBusinessDay, usFederalHolidays } from '../src/index.js';
+
+// Each timezone needs its own process, since the host timezone is read once
+const parity = fileURLToPath(new URL('./business-parity.ts', import.meta.url));
+for (const timeZone of ['UTC', 'America/New_York', 'Australia/Lord_Howe', 'Africa/Casablanca']) {
+  test(`addBusinessDays and diffInBusinessDays match day-by-day stepping in ${timeZone}`, () => {
+    const result = spawnSync(process.execPath, [...process.execArgv, parity], {
+      env: { ...process.env, TZ: timeZone },
+      encoding: 'utf8',
+    });
+    assert.equal(result.status, 0, result.stderr);
+  });
+}
+
+test('business days skip weekends and holidays', () => {
+  const us = usFederalHolidays();
+  assert.equal(isBusinessDay('2024-11-28', us), false);
+  assert.equal(isBusinessDay('2024-11-29', us), true);
+  assert.equal(addBusinessDays('2024-11-27', 1, us).toDateString(), new Date(2024, 10, 29).toDateString());
+  assert.equal(addBusinessDays(new Date(2024, 0, 5), 1).toDateString(), new Date(2024, 0, 8).toDateString());
+  assert.equal(diffInBusinessDays(new Date(2024, 0, 1), new Date(2024, 1, 1), us), 22);
+  assert.equal(isBusinessDay(new Date(2024, 3, 10), { weekendDays: [5, 6], holidays: ['2024-04-10'] }), false);
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HolidayCalendar } from '../src/index.js';
+import {
+  usFederalHolidays, nyseHolidays, ukBankHolidays, target2Holidays, japanHolidays, chinaHolidays, isBusinessDay,
+} from '../src/index.js';
+
+// Days off in a year as "MM-DD" (local dates)
+const days = (calendar: HolidayCalendar, year: number) => calendar.holidaysInYear(year).map(h =>
+  `${String(h.date.getMonth() + 1).padStart(2, '0')}-${String(h.date.getDate()).padStart(2, '0')}`);
+
+test('US federal holidays', () => {
+  const us = usFederalHolidays();
+  assert.deepEqual(days(us, 2024), ['01-01', '01-15', '02-19', '05-27', '06-19', '07-04', '09-02', '10-14', '11-11', '11-28', '12-25']);
+  // New Year's Day 2022 (Saturday) is observed on Friday, December 31, 2021
+  assert.equal(days(us, 2021).at(-1), '12-31');
+  assert.deepEqual(days(us, 2020).slice(0, 2), ['01-01', '01-20']);
+});
+
+test('NYSE closures', () => {
+  const nyse = nyseHolidays();
+  assert.deepEqual(days(nyse, 2025), ['01-01', '01-09', '01-20', '02-17', '04-18', '05-26', '06-19', '07-04', '09-01', '11-27', '12-25']);
+  // A Saturday New Year's Day is not observed
+  assert.notEqual(days(nyse, 2021).at(-1), '12-31');
+  assert.equal(days(nyse, 2022).includes('06-20'), true);
+  assert.equal(isBusinessDay('2025-04-18', nyse), false);
+  for (const date of ['1985-09-27', '1994-04-27', '2001-09-11', '2001-09-14', '2012-10-29', '2012-10-30', '2018-12-05']) {
+    assert.equal(nyse.isHoliday(date), true, date);
+  }
+});
+
+test('UK bank holidays', () => {
+  const uk = ukBankHolidays();
+  assert.deepEqual(days(uk, 2002), ['01-01', '03-29', '04-01', '05-06', '06-03', '06-04', '08-26', '12-25', '12-26']);
+  assert.deepEqual(days(uk, 2022), ['01-03', '04-15', '04-18', '05-02', '06-02', '06-03', '08-29', '09-19', '12-26', '12-27']);
+  assert.deepEqual(days(uk, 2020).slice(0, 4), ['01-01', '04-10', '04-13', '05-08']);
+});
+
+test('TARGET2 closing days', () => {
+  assert.deepEqual(days(target2Holidays(), 2024), ['01-01', '03-29', '04-01', '05-01', '12-25', '12-26']);
+});
+
+test('Japanese national holidays', () => {
+  const japan = japanHolidays();
+  for (const date of ['2019-04-30', '2019-05-01', '2019-05-06', '2020-07-23', '2020-07-24', '2020-08-10',
+    '2024-03-20', '2024-09-23', '2026-09-22']) {
+    assert.equal(japan.isHoliday(date), true, date);
+  }
+  for (const date of ['2020-07-20', '2020-10-12', '2024-09-24', '2019-12-23']) {
+    assert.equal(japan.isHoliday(date), false, date);
+  }
+});
+
+test('Chinese public holidays', () => {
+  const china = chinaHolidays();
+  assert.deepEqual(days(china, 2024), ['01-01', '02-10', '02-11', '02-12', '04-04', '05-01', '06-10', '09-17', '10-01', '10-02', '10-03']);
+  assert.deepEqual(days(china, 2025).slice(0, 5), ['01-01', '01-28', '01-29', '01-30', '01-31']);
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dayCountFraction, rollDate, addMonthsRolled, nyseHolidays } from '../src/index.js';
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-12, `${actual} != ${expected}`);
+
+test('day-count fractions', () => {
+  close(dayCountFraction('2024-01-15', '2024-03-31', '30/360'), 76 / 360);
+  close(dayCountFraction('2024-01-15', '2024-03-31', '30E/360'), 75 / 360);
+  close(dayCountFraction('2024-01-15', '2024-03-31', 'ACT/360'), 76 / 360);
+  close(dayCountFraction('2024-01-15', '2024-03-31', 'ACT/365F'), 76 / 365);
+  close(dayCountFraction('2023-11-15', '2024-02-15', 'ACT/ACT ISDA'), 47 / 365 + 45 / 366);
+  close(dayCountFraction('2024-03-31', '2024-01-15', '30/360'), -76 / 360);
+});
+
+test('roll conventions', () => {
+  const nyse = nyseHolidays();
+  assert.deepEqual(rollDate('2024-08-31', 'following', nyse), new Date(2024, 8, 3));
+  assert.deepEqual(rollDate('2024-08-31', 'modifiedFollowing', nyse), new Date(2024, 7, 30));
+  assert.deepEqual(rollDate('2024-08-31', 'preceding', nyse), new Date(2024, 7, 30));
+  assert.deepEqual(rollDate('2024-06-01', 'modifiedPreceding', nyse), new Date(2024, 5, 3));
+  assert.deepEqual(rollDate('2024-11-02', 'following'), new Date(2024, 10, 4));
+  // The time of day is kept, including across a DST change
+  assert.deepEqual(rollDate(new Date(2024, 10, 2, 9, 30), 'following'), new Date(2024, 10, 4, 9, 30));
+});
+
+test('adding months and rolling', () => {
+  const nyse = nyseHolidays();
+  assert.deepEqual(addMonthsRolled('2024-05-31', 3, { calendar: nyse, roll: 'following' }), new Date(2024, 8, 3));
+  assert.deepEqual(addMonthsRolled('2024-02-29', 1, { endOfMonth: true }), new Date(2024, 2, 29));
+  assert.deepEqual(addMonthsRolled('2024-01-31', 1), new Date(2024, 1, 29));
+});
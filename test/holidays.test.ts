@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HolidayCalendar } from '../src/index.js';
+import { easter, holidayCalendar, unionCalendars, intersectCalendars } from '../src/index.js';
+
+// Holidays in a year as "name YYYY-MM-DD" (local dates)
+const listed = (calendar: HolidayCalendar, year: number) => calendar.holidaysInYear(year).map(h =>
+  `${h.name} ${h.date.getFullYear()}-${String(h.date.getMonth() + 1).padStart(2, '0')}-${String(h.date.getDate()).padStart(2, '0')}`);
+
+test('easter', () => {
+  assert.equal(easter(2024).toDateString(), new Date(2024, 2, 31).toDateString());
+  assert.equal(easter(2025).toDateString(), new Date(2025, 3, 20).toDateString());
+  assert.equal(easter(2038).toDateString(), new Date(2038, 3, 25).toDateString());
+});
+
+test('rule types resolve to their dates', () => {
+  const calendar = holidayCalendar([
+    { name: 'Fixed', type: 'fixed', month: 6, day: 4 },
+    { name: 'Third Monday', type: 'nthWeekday', month: 0, weekday: 1, n: 3 },
+    { name: 'Last Monday', type: 'lastWeekday', month: 4, weekday: 1 },
+    { name: 'Good Friday', type: 'easter', offset: -2 },
+    { name: 'Mid-Autumn', type: 'lunar', month: 8, day: 15 },
+    { name: 'One-off', type: 'date', date: '2024-10-07' },
+    { name: 'Custom', type: 'custom', resolve: year => (year % 2 === 0 ? new Date(year, 11, 24) : null) },
+  ]);
+  assert.deepEqual(listed(calendar, 2024), [
+    'Third Monday 2024-01-15', 'Good Friday 2024-03-29', 'Last Monday 2024-05-27', 'Fixed 2024-07-04',
+    'Mid-Autumn 2024-09-17', 'One-off 2024-10-07', 'Custom 2024-12-24',
+  ]);
+  assert.deepEqual(listed(calendar, 2025), [
+    'Third Monday 2025-01-20', 'Good Friday 2025-04-18', 'Last Monday 2025-05-26', 'Fixed 2025-07-04',
+    'Mid-Autumn 2025-10-06',
+  ]);
+});
+
+test('year limits', () => {
+  const calendar = holidayCalendar([
+    { name: 'Limited', type: 'fixed', month: 5, day: 1, fromYear: 2020, toYear: 2022, exceptYears: [2021] },
+  ]);
+  assert.deepEqual([2019, 2020, 2021, 2022, 2023].map(y => calendar.holidaysInYear(y).length), [0, 1, 0, 1, 0]);
+});
+
+test('observed rules', () => {
+  const nearest = holidayCalendar([
+    { name: "New Year's Day", type: 'fixed', month: 0, day: 1, observed: 'nearestWeekday' },
+    { name: 'Independence Day', type: 'fixed', month: 6, day: 4, observed: 'nearestWeekday' },
+  ]);
+  // Saturday → Friday (into the previous year), Sunday → Monday
+  assert.deepEqual(listed(nearest, 2021), ["New Year's Day 2021-01-01", 'Independence Day 2021-07-05', "New Year's Day 2021-12-31"]);
+  assert.deepEqual(listed(nearest, 2020), ["New Year's Day 2020-01-01", 'Independence Day 2020-07-03']);
+  const observed = nearest.holidayOn('2021-12-31');
+  assert.equal(observed?.observed, true);
+  assert.equal(observed?.actualDate.toDateString(), new Date(2022, 0, 1).toDateString());
+
+  // Friday-Saturday weekend: Friday → Thursday, Saturday → Sunday
+  const gulf = holidayCalendar([
+    { name: 'Friday', type: 'fixed', month: 0, day: 5, observed: 'nearestWeekday' },
+    { name: 'Saturday', type: 'fixed', month: 0, day: 6, observed: 'nearestWeekday' },
+  ], { weekendDays: [5, 6] });
+  assert.deepEqual(listed(gulf, 2024), ['Friday 2024-01-04', 'Saturday 2024-01-07']);
+
+  // Substitute days don't land on another holiday
+  const next = holidayCalendar([
+    { name: 'Christmas Day', type: 'fixed', month: 11, day: 25, observed: 'nextWeekday' },
+    { name: 'Boxing Day', type: 'fixed', month: 11, day: 26, observed: 'nextWeekday' },
+  ]);
+  assert.deepEqual(listed(next, 2021), ['Christmas Day 2021-12-27', 'Boxing Day 2021-12-28']);
+
+  const sundayOnly = holidayCalendar([
+    { name: 'Saturday', type: 'fixed', month: 0, day: 6, observed: 'nextWeekdayIfSunday' },
+    { name: 'Sunday', type: 'fixed', month: 0, day: 7, observed: 'nextWeekdayIfSunday' },
+  ]);
+  assert.deepEqual(listed(sundayOnly, 2024), ['Saturday 2024-01-06', 'Sunday 2024-01-08']);
+});
+
+test('date-only strings are local dates', () => {
+  const calendar = holidayCalendar([{ name: 'Thanksgiving', type: 'nthWeekday', month: 10, weekday: 4, n: 4 }]);
+  assert.equal(calendar.isHoliday('2024-11-28'), true);
+  assert.equal(calendar.isHoliday('2024-11-27'), false);
+  assert.equal(calendar.isHoliday(new Date(2024, 10, 28, 23, 59)), true);
+});
+
+test('union and intersection', () => {
+  const a = holidayCalendar([{ name: 'A', type: 'fixed', month: 0, day: 2 }, { name: 'Both', type: 'fixed', month: 0, day: 3 }]);
+  const b = holidayCalendar([{ name: 'B', type: 'fixed', month: 0, day: 4 }, { name: 'Both', type: 'fixed', month: 0, day: 3 }],
+    { weekendDays: [5, 6] });
+  assert.deepEqual(listed(unionCalendars(a, b), 2024), ['A 2024-01-02', 'Both 2024-01-03', 'B 2024-01-04']);
+  assert.deepEqual(unionCalendars(a, b).weekendDays, [0, 5, 6]);
+  assert.deepEqual(listed(intersectCalendars(a, b), 2024), ['Both 2024-01-03']);
+  assert.deepEqual(intersectCalendars(a, b).weekendDays, [6]);
+});
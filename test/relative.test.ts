@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Clock } from '../src/index.js';
+import { relative, nextRelativeChange, watchRelative } from '../src/index.js';
+
+// Clock whose time only moves when advanced, firing timers as it passes them
+function fakeClock(start: number) {
+  let now = start;
+  let timers: Array<{ at: number; callback: () => void }> = [];
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      const timer = { at: now + ms, callback };
+      timers.push(timer);
+      return timer;
+    },
+    clearTimeout: handle => {
+      timers = timers.filter(t => t !== handle);
+    },
+  };
+  const advance = (to: number) => {
+    for (;;) {
+      const next = timers.reduce<{ at: number; callback: () => void } | undefined>(
+        (earliest, t) => (!earliest || t.at < earliest.at ? t : earliest), undefined);
+      if (!next || next.at > to) break;
+      timers = timers.filter(t => t !== next);
+      now = next.at;
+      next.callback();
+    }
+    now = to;
+  };
+  return { clock, advance };
+}
+
+const START = Date.UTC(2024, 0, 15, 12);
+const HOUR = 60 * 60 * 1000;
+
+test('watchRelative follows relative() across every threshold of a future date', () => {
+  const target = START + 2 * HOUR;
+  const { clock, advance } = fakeClock(START);
+  let text = '';
+  const stop = watchRelative(target, t => { text = t; }, { clock });
+
+  for (let t = START; t <= target + 2 * HOUR; t += 250) {
+    advance(t);
+    assert.equal(text, relative(target, { base: t }), `at ${t - target} ms`);
+  }
+  stop();
+});
+
+test('watchRelative follows relative() for a past date', () => {
+  const target = START - 30 * 1000;
+  const { clock, advance } = fakeClock(START);
+  let text = '';
+  const stop = watchRelative(target, t => { text = t; }, { clock, rounding: 'floor' });
+
+  for (let t = START; t <= START + 3 * HOUR; t += 250) {
+    advance(t);
+    assert.equal(text, relative(target, { base: t, rounding: 'floor' }), `at ${t - target} ms`);
+  }
+  stop();
+});
+
+test('nextRelativeChange steps down to the next smaller unit', () => {
+  const target = START;
+  // "in 2 hours" becomes "in 1 hour" at 90 minutes, then "in 59 minutes" just under 59.5 minutes
+  assert.equal(nextRelativeChange(target, { base: target - 2 * HOUR }), target - 1.5 * HOUR + 1);
+  assert.equal(nextRelativeChange(target, { base: target - 1.5 * HOUR + 1 }), target - 59.5 * 60 * 1000 + 1);
+  // "in 2 minutes" becomes "in 1 minute" at 90 seconds, then "in 59 seconds" just under 59.5 seconds
+  assert.equal(nextRelativeChange(target, { base: target - 90 * 1000 + 1 }), target - 59.5 * 1000 + 1);
+  assert.equal(relative(target, { base: target - 59.5 * 1000 + 1 }), 'in 59 seconds');
+});
+
+test('a throwing subscriber does not stop the others', () => {
+  const target = START + 90 * 1000;
+  const { clock, advance } = fakeClock(START);
+  // Collect the errors watchRelative rethrows asynchronously
+  const errors: unknown[] = [];
+  const { queueMicrotask } = globalThis;
+  globalThis.queueMicrotask = callback => {
+    try {
+      callback();
+    } catch (error) {
+      errors.push(error);
+    }
+  };
+
+  const texts: string[] = [];
+  const stopFailing = watchRelative(target, () => { if (clock.now() > START) throw new Error('subscriber failed'); }, { clock });
+  const stop = watchRelative(target, t => { texts.push(t); }, { clock });
+  advance(START + 40 * 1000);
+  globalThis.queueMicrotask = queueMicrotask;
+
+  assert.deepEqual(texts, ['in 2 minutes', 'in 1 minute', 'in 59 seconds', 'in 58 seconds', 'in 57 seconds', 'in 56 seconds',
+    'in 55 seconds', 'in 54 seconds', 'in 53 seconds', 'in 52 seconds', 'in 51 seconds', 'in 50 seconds']);
+  assert.equal(errors.length, texts.length - 1);
+  stopFailing();
+  stop();
+});